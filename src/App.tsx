@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { 
   CssBaseline, 
@@ -11,15 +11,61 @@ import {
   StepLabel,
   Fade,
   Alert,
+  Tabs,
+  Tab,
+  ToggleButtonGroup,
+  ToggleButton,
   useMediaQuery,
   useTheme
 } from '@mui/material';
+import { Hub, CompareArrows, GridOn } from '@mui/icons-material';
 import { NetworkVisualization } from './components/NetworkVisualization';
 import { CharacterPanel } from './components/CharacterPanel';
 import { ControlPanel } from './components/ControlPanel';
 import { BookSelector } from './components/BookSelector';
+import { ContextDrawer } from './components/ContextDrawer';
+import { CharacterDetailDrawer } from './components/CharacterDetailDrawer';
+import { CharacterReconciliationDialog } from './components/CharacterReconciliationDialog';
+import { AnalysisLibrary } from './components/AnalysisLibrary';
+import { AnalysisQueuePanel } from './components/AnalysisQueuePanel';
+import { GraphToolbar } from './components/GraphToolbar';
+import { CommunityLegend } from './components/CommunityLegend';
+import { ImportDialog } from './components/ImportDialog';
+import { UploadTextDialog } from './components/UploadTextDialog';
+import { TimelineScrubber } from './components/TimelineScrubber';
+import { ComparisonView, type ComparisonOption } from './components/ComparisonView';
+import { ChapterRangeSelector } from './components/ChapterRangeSelector';
+import { RunDiffBar } from './components/RunDiffBar';
+import { NetworkFilterPanel } from './components/NetworkFilterPanel';
+import { FocusControls } from './components/FocusControls';
+import { AdjacencyMatrix } from './components/AdjacencyMatrix';
+import { ChapterHeatmap } from './components/ChapterHeatmap';
 import { useSocket } from './hooks/useSocket';
 import { useNetworkData } from './hooks/useNetworkData';
+import { useAnalysisLibrary } from './hooks/useAnalysisLibrary';
+import { useTimeline } from './hooks/useTimeline';
+import { useStallWatchdog } from './hooks/useStallWatchdog';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { withChapterSlices } from './utils/chapters';
+import { startAnalysis, startTextAnalysis } from './utils/api';
+import { DEFAULT_LAYOUT } from './utils/layouts';
+import { buildViewUrl, parseViewState } from './utils/urlState';
+import { useLocation, useNavigate, useNavigationType } from 'react-router-dom';
+import type {
+  AnalysisResult,
+  AnalysisRun,
+  GraphView,
+  LayoutSettings,
+  NetworkLink,
+  NodeColoring,
+  NodeSizing,
+  QueueItem,
+  SavedAnalysis,
+  SelectedBook,
+  UploadedText,
+  ViewState,
+  ZoomState
+} from './types';
 
 const theme = createTheme({
   palette: {
@@ -67,34 +113,148 @@ const theme = createTheme({
   },
 });
 
+const createSessionId = () => `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
 const App: React.FC = () => {
-  const [sessionId] = useState(`session_${Date.now()}`);
+  // Every run streams over its own session, so replies to an earlier run cannot end the current one
+  const [sessionId, setSessionId] = useState(createSessionId);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [selectedBook, setSelectedBook] = useState<{ id: number, title: string } | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [selectedBook, setSelectedBook] = useState<SelectedBook | null>(null);
   const [hasAnalyzed, setHasAnalyzed] = useState(false);
   const [containerDimensions, setContainerDimensions] = useState({ width: 900, height: 700 });
+  const [selectedLink, setSelectedLink] = useState<NetworkLink | null>(null);
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [sizeBy, setSizeBy] = useState<NodeSizing>('mentions');
+  const [colorBy, setColorBy] = useState<NodeColoring>('character');
+  const [layout, setLayout] = useState<LayoutSettings>(DEFAULT_LAYOUT);
+  const [hiddenCommunities, setHiddenCommunities] = useState<number[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  // The last uploaded text, kept so it can be re-run without choosing the file again
+  const [uploadedText, setUploadedText] = useState<UploadedText | null>(null);
+  const [viewMode, setViewMode] = useState<'explore' | 'compare'>('explore');
+  const [graphView, setGraphView] = useState<GraphView>('network');
+  // Zoom read from a shared link, and the user's latest zoom to write back into the URL
+  const [restoredZoom, setRestoredZoom] = useState<ZoomState | null>(null);
+  const [zoom, setZoom] = useState<ZoomState | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // The book the live analysis run belongs to, so its result is saved under the right ID
+  const analysisBookRef = useRef<SelectedBook | null>(null);
   
+  const location = useLocation();
+  const navigate = useNavigate();
+  const navigationType = useNavigationType();
+  // The URL last restored from or written, so the app never re-applies its own updates
+  const lastUrlRef = useRef<string | null>(null);
+  const lastUrlBookIdRef = useRef<number | null>(null);
+  const isRestoringRef = useRef(false);
+  const zoomTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
   const muiTheme = useTheme();
   const isMobile = useMediaQuery(muiTheme.breakpoints.down('md')); // Mobile/tablet detection
   const isSmallMobile = useMediaQuery(muiTheme.breakpoints.down('sm')); // Small mobile
   
   const { 
     isConnected, 
+    connectionStatus,
+    missedUpdates,
+    updates,
     currentUpdate, 
     joinSession, 
+    cancelAnalysis,
+    pauseAnalysis,
+    resumeAnalysis,
     clearUpdates 
   } = useSocket(import.meta.env.VITE_SOCKET_URL);
+
+  // A running analysis that has gone quiet for too long is treated as stalled
+  const isStalled = useStallWatchdog(isAnalyzing && !isPaused, updates);
+
+  // Latest update that reports batch progress, since pause/resume notices do not carry it
+  const progressUpdate = useMemo(
+    () => [...updates].reverse().find(update => update.totalBatches !== undefined) ?? null,
+    [updates]
+  );
+
+  // Every network snapshot received during the current run, in arrival order, split by chapter
+  const snapshots = useMemo(
+    () => withChapterSlices(
+      updates.filter(update => (update.type === 'batch_complete' || update.type === 'analysis_complete') && update.data)
+    ),
+    [updates]
+  );
+
+  const timeline = useTimeline(snapshots.length);
   
   const { 
     nodes, 
     links, 
+    metrics,
+    analysisResult,
     highlightedCharacter,
+    characters,
+    characterGroups,
+    overrides,
+    chapters,
+    chapterRange,
+    diff,
+    filters,
+    filterBounds,
+    focus,
+    focusNeighbourhood,
     updateData, 
     highlightCharacter, 
-    getCharacterInteractions 
+    getCharacterInteractions,
+    getCharacterDetail,
+    mergeCharacters,
+    splitCharacter,
+    resetOverrides,
+    selectChapterRange,
+    compareWithRun,
+    updateFilters,
+    resetFilters,
+    updateFocus
   } = useNetworkData();
 
+  const {
+    analyses,
+    error: libraryError,
+    saveAnalysis,
+    getAnalysis,
+    getRuns,
+    removeAnalysis
+  } = useAnalysisLibrary();
+
+  // Every saved run of the open book, for diffing against the one on screen
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [diffRunId, setDiffRunId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const bookId = selectedBook?.id;
+    if (bookId === undefined) return;
+    let isCurrent = true;
+    getRuns(bookId).then(bookRuns => {
+      if (isCurrent) setRuns(bookRuns);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedBook?.id, analyses, getRuns]);
+
+  const selectDiffRun = (run: AnalysisRun | null) => {
+    setDiffRunId(run?.runId ?? null);
+    compareWithRun(run?.result ?? null);
+  };
+
+  // Reading-list runs are saved to the library as they finish
+  const handleQueuedComplete = useCallback((item: QueueItem, result: AnalysisResult) => {
+    saveAnalysis(item.bookId, item.title, result);
+  }, [saveAnalysis]);
+
+  const queue = useAnalysisQueue(import.meta.env.VITE_SOCKET_URL, handleQueuedComplete);
+
   // Update container dimensions on resize with mobile optimization
   useEffect(() => {
     const updateDimensions = () => {
@@ -135,29 +295,133 @@ const App: React.FC = () => {
       window.removeEventListener('orientationchange', updateDimensions);
       resizeObserver.disconnect();
     };
-  }, [isMobile]);
+  }, [isMobile, viewMode]);
+
+  // The open network plus every saved analysis can be put side by side
+  const comparisonOptions = useMemo<ComparisonOption[]>(() => [
+    ...(analysisResult && selectedBook
+      ? [{ key: 'current', label: `${selectedBook.title} (open)`, result: analysisResult }]
+      : []),
+    ...analyses.map(analysis => ({ key: `saved-${analysis.bookId}`, label: analysis.title, result: analysis.result }))
+  ], [analysisResult, selectedBook, analyses]);
+
+  // Characters of the path picked in the path finder, traced on the graph
+  const [highlightedPath, setHighlightedPath] = useState<string[] | null>(null);
+
+  // Double-clicking a character makes it the centre of the focused neighbourhood
+  const focusOnCharacter = useCallback((character: string) => {
+    highlightCharacter(character);
+    updateFocus({ character });
+  }, [highlightCharacter, updateFocus]);
+
+  // Characters opened in the detail drawer; the last one is on screen, the rest are reachable with Back
+  const [detailHistory, setDetailHistory] = useState<string[]>([]);
+  const detailCharacter = detailHistory[detailHistory.length - 1] ?? null;
+  const characterDetail = useMemo(
+    () => (detailCharacter ? getCharacterDetail(detailCharacter) : null),
+    [detailCharacter, getCharacterDetail]
+  );
+
+  const openCharacterDetail = useCallback((character: string) => {
+    setDetailHistory(prev => (prev[prev.length - 1] === character ? prev : [...prev, character]));
+  }, []);
+
+  // Read by the graph click handler, which has to stay stable to avoid rebuilding the graph
+  const highlightedCharacterRef = useRef(highlightedCharacter);
+  useEffect(() => {
+    highlightedCharacterRef.current = highlightedCharacter;
+  }, [highlightedCharacter]);
+
+  // Clicking the character that is already highlighted opens its details
+  const handleGraphCharacterClick = useCallback((character: string) => {
+    if (character === highlightedCharacterRef.current) {
+      openCharacterDetail(character);
+    } else {
+      highlightCharacter(character);
+    }
+  }, [highlightCharacter, openCharacterDetail]);
+
+  const resetUpdates = () => {
+    clearUpdates();
+    timeline.goLive();
+    selectChapterRange(null);
+    selectDiffRun(null);
+    updateFocus({ character: null });
+    setZoom(null);
+    setRestoredZoom(null);
+    setDetailHistory([]);
+  };
+
+  const toggleCommunity = (community: number) => {
+    setHiddenCommunities(prev =>
+      prev.includes(community) ? prev.filter(c => c !== community) : [...prev, community]
+    );
+  };
+
+  const openSavedAnalysis = (analysis: SavedAnalysis) => {
+    // A live run would otherwise keep streaming over, and saving onto, the result being opened
+    if (isAnalyzing) cancelAnalysis();
+    analysisBookRef.current = null;
+    if (selectedBook?.id !== analysis.bookId) {
+      resetOverrides();
+    }
+    // Uploaded texts are stored under negative ids
+    setSelectedBook({ id: analysis.bookId, title: analysis.title, source: analysis.bookId < 0 ? 'upload' : 'gutenberg' });
+    resetUpdates();
+    updateData(analysis.result);
+    setSavedAt(analysis.savedAt);
+    setIsAnalyzing(false);
+    setHasAnalyzed(true);
+    console.log(`📚 Loaded saved analysis for "${analysis.title}" (ID: ${analysis.bookId})`);
+  };
+
+  const openQueuedResult = (item: QueueItem) => {
+    if (!item.result) return;
+    openSavedAnalysis({
+      bookId: item.bookId,
+      title: item.title,
+      result: item.result,
+      savedAt: item.completedAt ?? Date.now()
+    });
+  };
+
+  const handleImport = (result: AnalysisResult, label: string) => {
+    resetOverrides();
+    setSelectedBook({ id: 0, title: label, source: 'import' });
+    resetUpdates();
+    updateData(result);
+    setSavedAt(null);
+    setIsAnalyzing(false);
+    setHasAnalyzed(true);
+    console.log(`📂 Imported network from ${label}`);
+  };
+
+  const handleBookSelect = async (bookId: number, bookTitle: string, forceRerun: boolean = false) => {
+    // Reuse a saved result instead of streaming the whole book again
+    if (!forceRerun) {
+      const saved = await getAnalysis(bookId);
+      if (saved) {
+        openSavedAnalysis(saved);
+        return;
+      }
+    }
 
-  const handleBookSelect = async (bookId: number, bookTitle: string) => {
     try {
       setIsAnalyzing(true);
-      setSelectedBook({ id: bookId, title: bookTitle });
-      clearUpdates();
-      joinSession(sessionId);
-
-      const bookIdString = bookId.toString();
-
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          sessionId,
-          bookID: bookIdString,
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+      setIsPaused(false);
+      // Manual merges only make sense for the book they were made on
+      if (selectedBook?.id !== bookId) {
+        resetOverrides();
       }
+      setSelectedBook({ id: bookId, title: bookTitle });
+      setSavedAt(null);
+      analysisBookRef.current = { id: bookId, title: bookTitle };
+      resetUpdates();
+      const runSessionId = createSessionId();
+      setSessionId(runSessionId);
+      joinSession(runSessionId);
+
+      await startAnalysis(runSessionId, bookId);
 
       console.log(`✅ Analysis started for "${bookTitle}" (ID: ${bookId})`);
     } catch (error) {
@@ -166,6 +430,136 @@ const App: React.FC = () => {
     }
   };
 
+  // Analyze text the user supplied, streaming progress exactly like a Gutenberg book
+  const handleTextAnalyze = async (upload: UploadedText, forceRerun: boolean = false) => {
+    setUploadedText(upload);
+    if (!forceRerun) {
+      const saved = await getAnalysis(upload.id);
+      if (saved) {
+        openSavedAnalysis(saved);
+        return;
+      }
+    }
+
+    try {
+      setIsAnalyzing(true);
+      setIsPaused(false);
+      if (selectedBook?.id !== upload.id) {
+        resetOverrides();
+      }
+      const book: SelectedBook = { id: upload.id, title: upload.title, source: 'upload' };
+      setSelectedBook(book);
+      setSavedAt(null);
+      analysisBookRef.current = book;
+      resetUpdates();
+      const runSessionId = createSessionId();
+      setSessionId(runSessionId);
+      joinSession(runSessionId);
+
+      await startTextAnalysis(runSessionId, upload.text, upload.title);
+
+      console.log(`✅ Analysis started for uploaded text "${upload.title}" (${upload.wordCount} words)`);
+    } catch (error) {
+      console.error('❌ Failed to start analysis:', error);
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Uploaded texts cannot be fetched again by id, so they are re-sent from memory
+  const canRerun = (bookId: number) => bookId > 0 || bookId === uploadedText?.id;
+
+  const rerunAnalysis = (bookId: number, title: string) => {
+    if (bookId > 0) {
+      handleBookSelect(bookId, title, true);
+    } else if (uploadedText?.id === bookId) {
+      handleTextAnalyze(uploadedText, true);
+    }
+  };
+
+  // Open the view a shared link describes; cached results are reused by handleBookSelect
+  const restoreView = async (view: ViewState) => {
+    isRestoringRef.current = true;
+    updateFilters(view.filters);
+    setLayout(view.layout);
+    setGraphView(view.graphView);
+    if (view.bookId !== null && view.bookId !== selectedBook?.id) {
+      await handleBookSelect(view.bookId, view.title ?? `Project Gutenberg #${view.bookId}`);
+    }
+    // Applied after the book is opened, which clears them
+    selectChapterRange(view.chapterRange);
+    highlightCharacter(view.character);
+    updateFocus({ character: view.focus ? view.character : null, ...view.focus });
+    setZoom(view.zoom);
+    setRestoredZoom(view.zoom);
+    isRestoringRef.current = false;
+  };
+
+  const restoreViewRef = useRef(restoreView);
+  useEffect(() => {
+    restoreViewRef.current = restoreView;
+  });
+
+  // Restore from the URL on first load and on back / forward navigation
+  useEffect(() => {
+    const url = location.pathname + location.search;
+    if (url === lastUrlRef.current) return;
+    if (lastUrlRef.current !== null && navigationType !== 'POP') return;
+
+    const view = parseViewState(location.pathname, location.search);
+    lastUrlRef.current = url;
+    lastUrlBookIdRef.current = view.bookId;
+    console.log(`🔗 Restoring view from ${url}`);
+    restoreViewRef.current(view);
+  }, [location, navigationType]);
+
+  // Mirror the current view into the URL so it can be reloaded or shared
+  useEffect(() => {
+    if (lastUrlRef.current === null || isRestoringRef.current) return;
+
+    // Imported files and uploaded texts cannot be fetched again from a link
+    const bookId = selectedBook && (selectedBook.source ?? 'gutenberg') === 'gutenberg' ? selectedBook.id : null;
+    const character = highlightedCharacter ?? focus.character;
+    const url = buildViewUrl({
+      bookId,
+      title: selectedBook?.title ?? null,
+      character,
+      focus: focus.character && focus.character === character ? { hops: focus.hops, mode: focus.mode } : null,
+      filters,
+      layout,
+      chapterRange,
+      graphView,
+      zoom
+    });
+    if (url === lastUrlRef.current) return;
+
+    // Opening another book adds a history entry; view changes replace the current one
+    const isNewBook = bookId !== lastUrlBookIdRef.current;
+    lastUrlRef.current = url;
+    lastUrlBookIdRef.current = bookId;
+    navigate(url, { replace: !isNewBook });
+  }, [selectedBook, highlightedCharacter, focus, filters, layout, chapterRange, graphView, zoom, navigate]);
+
+  // Zoom reaches the URL once the user stops zooming
+  const handleZoomChange = useCallback((transform: ZoomState) => {
+    clearTimeout(zoomTimerRef.current);
+    zoomTimerRef.current = setTimeout(() => setZoom(transform), 500);
+  }, []);
+
+  // Stop locally straight away so the UI never waits on a server that may not answer
+  const handleCancel = () => {
+    cancelAnalysis();
+    analysisBookRef.current = null;
+    setIsAnalyzing(false);
+    setIsPaused(false);
+    console.log('⏹️ Analysis cancelled');
+  };
+
+  const handleRetry = () => {
+    if (!selectedBook) return;
+    cancelAnalysis();
+    rerunAnalysis(selectedBook.id, selectedBook.title);
+  };
+
   // Get current step for stepper
   const getCurrentStep = () => {
     if (!selectedBook) return 0;
@@ -181,18 +575,36 @@ const App: React.FC = () => {
     'Explore Results'
   ];
 
-  // Update data when receiving streaming updates
+  // Show the newest batch, or the batch picked on the timeline
+  const displayedSnapshot = timeline.frame !== null ? snapshots[timeline.frame] : snapshots[snapshots.length - 1];
+
+  useEffect(() => {
+    if (displayedSnapshot) {
+      updateData(displayedSnapshot);
+    }
+  }, [displayedSnapshot, updateData]);
+
+  // Track run status when receiving streaming updates
   React.useEffect(() => {
-    if (currentUpdate?.type === 'batch_complete' && currentUpdate.data) {
-      updateData(currentUpdate.data);
-    } else if (currentUpdate?.type === 'analysis_complete' && currentUpdate.data) {
-      updateData(currentUpdate.data);
+    if (currentUpdate?.type === 'analysis_complete' && currentUpdate.data) {
       setIsAnalyzing(false);
       setHasAnalyzed(true);
-    } else if (currentUpdate?.type === 'error') {
+      if (analysisBookRef.current) {
+        // Save the chapter-annotated result so the chapter views survive a reload
+        const finalResult = snapshots[snapshots.length - 1] ?? currentUpdate.data;
+        saveAnalysis(analysisBookRef.current.id, analysisBookRef.current.title, finalResult);
+        analysisBookRef.current = null;
+      }
+    } else if (currentUpdate?.type === 'error' || currentUpdate?.type === 'cancelled') {
       setIsAnalyzing(false);
+      setIsPaused(false);
+      analysisBookRef.current = null;
+    } else if (currentUpdate?.type === 'paused') {
+      setIsPaused(true);
+    } else if (currentUpdate?.type === 'resumed') {
+      setIsPaused(false);
     }
-  }, [currentUpdate, updateData]);
+  }, [currentUpdate, snapshots, saveAnalysis]);
 
   const EmptyStateMessage = () => (
     <Fade in={!selectedBook || nodes.length === 0}>
@@ -258,83 +670,287 @@ const App: React.FC = () => {
               onBookSelect={handleBookSelect}
               isAnalyzing={isAnalyzing}
               selectedBook={selectedBook}
+              onImportClick={() => setIsImportOpen(true)}
+              onUploadClick={() => setIsUploadOpen(true)}
+              onAddToQueue={queue.addBook}
             />
           </Box>
         </Fade>
 
+        {/* Saved analyses library */}
+        {analyses.length > 0 && (
+          <Fade in timeout={600}>
+            <Box>
+              <AnalysisLibrary
+                analyses={analyses}
+                error={libraryError}
+                isAnalyzing={isAnalyzing}
+                activeBookId={selectedBook?.id}
+                onOpen={openSavedAnalysis}
+                onRerun={(analysis) => rerunAnalysis(analysis.bookId, analysis.title)}
+                canRerun={(analysis) => canRerun(analysis.bookId)}
+                onDelete={(analysis) => removeAnalysis(analysis.bookId)}
+              />
+            </Box>
+          </Fade>
+        )}
+
+        {/* Background reading-list runs */}
+        {queue.items.length > 0 && (
+          <Fade in timeout={600}>
+            <Box>
+              <AnalysisQueuePanel
+                items={queue.items}
+                concurrency={queue.concurrency}
+                isRunning={queue.isRunning}
+                isAnalyzing={isAnalyzing}
+                activeBookId={selectedBook?.id}
+                onConcurrencyChange={queue.setConcurrency}
+                onRunningChange={queue.setIsRunning}
+                onView={openQueuedResult}
+                onRetry={queue.retryItem}
+                onRemove={queue.removeItem}
+                onClearFinished={queue.clearFinished}
+              />
+            </Box>
+          </Fade>
+        )}
+
         {/* Control Panel - only show when book is selected */}
         <Fade in={!!selectedBook} timeout={800}>
           <Box>
             <ControlPanel
               isConnected={isConnected}
+              connectionStatus={connectionStatus}
+              missedUpdates={missedUpdates}
               isAnalyzing={isAnalyzing}
+              isPaused={isPaused}
+              isStalled={isStalled}
               currentUpdate={currentUpdate}
-              onStartAnalysis={() => selectedBook && handleBookSelect(selectedBook.id, selectedBook.title)}
+              progressUpdate={progressUpdate}
+              onCancel={handleCancel}
+              onPause={pauseAnalysis}
+              onResume={resumeAnalysis}
+              onRetry={handleRetry}
+              onStartAnalysis={() => selectedBook && rerunAnalysis(selectedBook.id, selectedBook.title)}
+              canRerun={!selectedBook || canRerun(selectedBook.id)}
               sessionId={sessionId}
               selectedBook={selectedBook}
+              savedAt={savedAt}
+              nodes={nodes}
+              links={links}
+              analysisResult={analysisResult}
             />
           </Box>
         </Fade>
 
+        {/* Switch between exploring one network and comparing two */}
+        <Tabs
+          value={viewMode}
+          onChange={(_, value) => setViewMode(value)}
+          sx={{ borderBottom: 1, borderColor: 'divider' }}
+        >
+          <Tab value="explore" label="Explore" icon={<Hub />} iconPosition="start" />
+          <Tab value="compare" label="Compare" icon={<CompareArrows />} iconPosition="start" />
+        </Tabs>
+
+        {viewMode === 'compare' && (
+          <ComparisonView options={comparisonOptions} isMobile={isMobile} />
+        )}
+
+        {/* Chapter span the network is built from */}
+        {viewMode === 'explore' && chapters.length > 1 && (
+          <ChapterRangeSelector
+            chapters={chapters}
+            range={chapterRange}
+            onRangeChange={selectChapterRange}
+          />
+        )}
+
+        {/* Thresholds deciding which characters and links are drawn */}
+        {viewMode === 'explore' && analysisResult && (
+          <NetworkFilterPanel
+            filters={filters}
+            bounds={filterBounds}
+            shownCount={nodes.length}
+            onChange={updateFilters}
+            onReset={resetFilters}
+          />
+        )}
+
+        {/* Diff against another saved run of the same book */}
+        {viewMode === 'explore' && selectedBook && runs.length > 0 && analysisResult && (
+          <RunDiffBar
+            runs={runs}
+            currentSavedAt={savedAt}
+            selectedRunId={diffRunId}
+            diff={diff}
+            onSelectRun={selectDiffRun}
+          />
+        )}
+
         {/* Results Section - Responsive Layout */}
-        <Fade in timeout={1000}>
-          <Box sx={{ mt: 3 }}>
-            <Box sx={{ 
-              display: 'flex', 
-              flexDirection: isMobile ? 'column' : 'row', // Stack vertically on mobile
-              gap: 3 
-            }}>
-              {/* Network Visualization */}
-              <Paper 
-                ref={containerRef}
-                elevation={3} 
-                sx={{ 
-                  flex: 1,
-                  order: isMobile ? 2 : 1, // Show after character panel on mobile
-                  p: isMobile ? 1 : 2, 
-                  minHeight: isMobile ? '400px' : '700px', // Smaller on mobile
-                  height: isMobile ? '60vh' : '700px', // Use viewport height on mobile
-                  background: '#000000',
-                  position: 'relative',
-                  overflow: 'hidden',
-                  border: '2px solid #333',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center'
-                }}
-              >
-                {nodes.length > 0 ? (
-                  <NetworkVisualization
-                    nodes={nodes}
-                    links={links}
-                    highlightedCharacter={highlightedCharacter}
-                    onCharacterClick={highlightCharacter}
-                    width={containerDimensions.width}
-                    height={containerDimensions.height}
-                  />
-                ) : (
-                  <EmptyStateMessage />
-                )}
-              </Paper>
-
-              {/* Character Panel - Responsive width */}
-              <Fade in={nodes.length > 0} timeout={1200}>
-                <Box sx={{ 
-                  width: isMobile ? '100%' : 400,
-                  order: isMobile ? 1 : 2, // Show before graph on mobile
-                  maxHeight: isMobile ? '300px' : 'none', // Limit height on mobile
-                  overflow: isMobile ? 'auto' : 'visible'
-                }}>
-                  <CharacterPanel
-                    characters={getCharacterInteractions()}
-                    onCharacterClick={highlightCharacter}
-                    highlightedCharacter={highlightedCharacter}
-                  />
-                </Box>
-              </Fade>
+        {viewMode === 'explore' && (
+          <Fade in timeout={1000}>
+            <Box sx={{ mt: 3 }}>
+              {/* Node-link diagram or adjacency matrix of the same links */}
+              {nodes.length > 0 && (
+                <ToggleButtonGroup
+                  value={graphView}
+                  exclusive
+                  size="small"
+                  onChange={(_, value) => value && setGraphView(value)}
+                  sx={{ mb: 2 }}
+                >
+                  <ToggleButton value="network">
+                    <Hub fontSize="small" sx={{ mr: 1 }} />
+                    Network
+                  </ToggleButton>
+                  <ToggleButton value="matrix">
+                    <GridOn fontSize="small" sx={{ mr: 1 }} />
+                    Matrix
+                  </ToggleButton>
+                </ToggleButtonGroup>
+              )}
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: isMobile ? 'column' : 'row', // Stack vertically on mobile
+                gap: 3 
+              }}>
+                {/* Network Visualization */}
+                <Paper 
+                  ref={containerRef}
+                  elevation={3} 
+                  sx={{ 
+                    flex: 1,
+                    order: isMobile ? 2 : 1, // Show after character panel on mobile
+                    p: isMobile ? 1 : 2, 
+                    minHeight: isMobile ? '400px' : '700px', // Smaller on mobile
+                    height: isMobile ? '60vh' : '700px', // Use viewport height on mobile
+                    background: '#000000',
+                    position: 'relative',
+                    overflow: 'hidden',
+                    border: '2px solid #333',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center'
+                  }}
+                >
+                  {nodes.length > 0 && graphView === 'network' && (
+                    <GraphToolbar
+                      sizeBy={sizeBy}
+                      colorBy={colorBy}
+                      onSizeByChange={setSizeBy}
+                      onColorByChange={setColorBy}
+                      layout={layout}
+                      onLayoutChange={(changes) => setLayout(prev => ({ ...prev, ...changes }))}
+                    />
+                  )}
+                  {nodes.length > 0 && graphView === 'network' && colorBy === 'community' && (
+                    <CommunityLegend
+                      nodes={nodes}
+                      metrics={metrics}
+                      hiddenCommunities={hiddenCommunities}
+                      onToggleCommunity={toggleCommunity}
+                    />
+                  )}
+                  {nodes.length > 0 && graphView === 'network' && (
+                    <FocusControls
+                      focus={focus}
+                      highlightedCharacter={highlightedCharacter}
+                      onChange={updateFocus}
+                    />
+                  )}
+                  {nodes.length > 0 && graphView === 'matrix' ? (
+                    <AdjacencyMatrix
+                      nodes={nodes}
+                      links={links}
+                      metrics={metrics}
+                      highlightedCharacter={highlightedCharacter}
+                      onCharacterClick={highlightCharacter}
+                      onLinkClick={setSelectedLink}
+                      width={containerDimensions.width}
+                      height={containerDimensions.height}
+                    />
+                  ) : nodes.length > 0 ? (
+                    <NetworkVisualization
+                      nodes={nodes}
+                      links={links}
+                      highlightedCharacter={highlightedCharacter}
+                      onCharacterClick={handleGraphCharacterClick}
+                      onCharacterDoubleClick={focusOnCharacter}
+                      onLinkClick={setSelectedLink}
+                      width={containerDimensions.width}
+                      height={containerDimensions.height}
+                      metrics={metrics}
+                      sizeBy={sizeBy}
+                      colorBy={colorBy}
+                      hiddenCommunities={hiddenCommunities}
+                      snapshotTitle={selectedBook?.title}
+                      bookLabel={selectedBook && (selectedBook.source ?? 'gutenberg') === 'gutenberg' ? `Project Gutenberg ID: ${selectedBook.id}` : undefined}
+                      diff={diff}
+                      focusNeighbourhood={focusNeighbourhood}
+                      highlightedPath={highlightedPath}
+                      layout={layout}
+                      layoutCenter={highlightedCharacter}
+                      zoomTransform={restoredZoom}
+                      onZoomChange={handleZoomChange}
+                    />
+                  ) : (
+                    <EmptyStateMessage />
+                  )}
+                </Paper>
+
+                {/* Character Panel - Responsive width */}
+                <Fade in={nodes.length > 0} timeout={1200}>
+                  <Box sx={{ 
+                    width: isMobile ? '100%' : 400,
+                    order: isMobile ? 1 : 2, // Show before graph on mobile
+                    maxHeight: isMobile ? '300px' : 'none', // Limit height on mobile
+                    overflow: isMobile ? 'auto' : 'visible'
+                  }}>
+                    <CharacterPanel
+                      characters={getCharacterInteractions()}
+                      onCharacterClick={highlightCharacter}
+                      highlightedCharacter={highlightedCharacter}
+                      onManageCharacters={() => setIsReconcileOpen(true)}
+                      metrics={metrics}
+                      diff={diff}
+                      links={links}
+                      onPathChange={setHighlightedPath}
+                      onShowDetails={openCharacterDetail}
+                    />
+                    {chapters.length > 0 && (
+                      <ChapterHeatmap
+                        characters={characters}
+                        chapters={chapters}
+                        range={chapterRange}
+                        highlightedCharacter={highlightedCharacter}
+                        onCharacterClick={highlightCharacter}
+                        onChapterClick={selectChapterRange}
+                      />
+                    )}
+                  </Box>
+                </Fade>
+              </Box>
+
+              {/* Batch-by-batch replay of the current run */}
+              {snapshots.length > 1 && (
+                <TimelineScrubber
+                  snapshots={snapshots}
+                  frame={timeline.frame}
+                  isPlaying={timeline.isPlaying}
+                  speed={timeline.speed}
+                  onPlay={timeline.play}
+                  onPause={timeline.pause}
+                  onSeek={timeline.seek}
+                  onSpeedChange={timeline.setSpeed}
+                  onGoLive={timeline.goLive}
+                />
+              )}
             </Box>
-          </Box>
-        </Fade>
+          </Fade>
+        )}
 
         {/* Help/Info Section */}
         {hasAnalyzed && nodes.length > 0 && (
@@ -348,12 +964,55 @@ const App: React.FC = () => {
             >
               <Typography variant="body2">
                 <strong>💡 How to explore:</strong> {isMobile ? 'Tap' : 'Click'} on characters in the network to highlight their connections, 
-                or use the character panel {isMobile ? 'above' : 'on the right'} to see detailed interaction statistics. 
+                {isMobile ? ' tap' : ' click'} a link to read the passages behind it, or use the character panel {isMobile ? 'above' : 'on the right'} to see detailed interaction statistics. 
                 The network automatically adjusts to show all characters optimally.
               </Typography>
             </Alert>
           </Fade>
         )}
+
+        {/* Context passages for the selected link */}
+        <ContextDrawer link={selectedLink} onClose={() => setSelectedLink(null)} />
+
+        {/* Description, partners and quotes of one character */}
+        <CharacterDetailDrawer
+          detail={characterDetail}
+          canGoBack={detailHistory.length > 1}
+          onBack={() => setDetailHistory(prev => prev.slice(0, -1))}
+          onClose={() => setDetailHistory([])}
+          onOpenCharacter={openCharacterDetail}
+          onShowInGraph={(character) => {
+            highlightCharacter(character);
+            setDetailHistory([]);
+          }}
+        />
+
+        {/* Offline import of exported or external networks */}
+        <ImportDialog
+          open={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImport={handleImport}
+        />
+
+        {/* Analysis of a text file the user supplies */}
+        <UploadTextDialog
+          open={isUploadOpen}
+          canAnalyze={isConnected && !isAnalyzing}
+          onClose={() => setIsUploadOpen(false)}
+          onAnalyze={handleTextAnalyze}
+        />
+
+        {/* Manual character merging and splitting */}
+        <CharacterReconciliationDialog
+          open={isReconcileOpen}
+          onClose={() => setIsReconcileOpen(false)}
+          characters={characters}
+          characterGroups={characterGroups}
+          overrides={overrides}
+          onMerge={mergeCharacters}
+          onSplit={splitCharacter}
+          onReset={resetOverrides}
+        />
       </Container>
     </ThemeProvider>
   );
@@ -0,0 +1,172 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Typography, TextField, MenuItem } from '@mui/material';
+import * as d3 from 'd3';
+import type { MatrixOrder, NetworkLink, NetworkNode, NodeMetrics } from '../types';
+import { getPairKey } from '../utils/diff';
+import { buildLinkLookup, MATRIX_ORDER_LABELS, orderMatrix } from '../utils/matrix';
+
+interface AdjacencyMatrixProps {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  metrics?: Record<string, NodeMetrics>;
+  highlightedCharacter: string | null;
+  onCharacterClick: (character: string) => void;
+  onLinkClick?: (link: NetworkLink) => void;
+  width: number;
+  height: number;
+}
+
+const LABEL_SIZE = 130;
+const MAX_CONTEXTS = 3;
+
+export const AdjacencyMatrix: React.FC<AdjacencyMatrixProps> = ({
+  nodes,
+  links,
+  metrics,
+  highlightedCharacter,
+  onCharacterClick,
+  onLinkClick,
+  width,
+  height
+}) => {
+  const [order, setOrder] = useState<MatrixOrder>('cluster');
+  const [hovered, setHovered] = useState<{ row: string; column: string; x: number; y: number } | null>(null);
+
+  const ordered = useMemo(() => orderMatrix(nodes, links, order, metrics), [nodes, links, order, metrics]);
+  const lookup = useMemo(() => buildLinkLookup(links), [links]);
+  const maxWeight = useMemo(() => Math.max(1, ...[...lookup.values()].map(link => link.weight)), [lookup]);
+
+  // Cells shrink to fit the panel, but never below a clickable size; the rest scrolls
+  const cellSize = Math.max(8, Math.min(24, Math.floor((Math.min(width, height) - LABEL_SIZE - 60) / Math.max(1, ordered.length))));
+  const gridSize = cellSize * ordered.length;
+  const shade = d3.scaleSequential(d3.interpolateMagma).domain([0, maxWeight]);
+  const fontSize = Math.max(8, Math.min(12, cellSize - 2));
+
+  const hoveredLink = hovered ? lookup.get(getPairKey(hovered.row, hovered.column)) : undefined;
+  const isInHighlight = (name: string) => name === highlightedCharacter;
+
+  return (
+    <Box sx={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', color: 'white' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 2, p: 1, pr: 6 }}>
+        <Typography variant="caption" sx={{ opacity: 0.7 }}>
+          Cell colour shows interaction weight • click a name to highlight it
+        </Typography>
+        <TextField
+          select
+          size="small"
+          label="Order rows by"
+          value={order}
+          onChange={(e) => setOrder(e.target.value as MatrixOrder)}
+          sx={{
+            minWidth: 170,
+            '& .MuiInputBase-root': { color: 'white', fontSize: '0.8rem', bgcolor: 'rgba(255,255,255,0.06)' },
+            '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' },
+            '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.25)' },
+            '& .MuiSvgIcon-root': { color: 'rgba(255,255,255,0.7)' }
+          }}
+        >
+          {(Object.keys(MATRIX_ORDER_LABELS) as MatrixOrder[]).map(key => (
+            <MenuItem key={key} value={key}>{MATRIX_ORDER_LABELS[key]}</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      <Box sx={{ flex: 1, overflow: 'auto', position: 'relative' }} onMouseLeave={() => setHovered(null)}>
+        <svg width={LABEL_SIZE + gridSize + 10} height={LABEL_SIZE + gridSize + 10}>
+          <g transform={`translate(${LABEL_SIZE},${LABEL_SIZE})`}>
+            {/* Rows and columns of the highlighted character */}
+            {ordered.map((name, index) => isInHighlight(name) && (
+              <g key={`band-${name}`} fill="rgba(255, 71, 87, 0.18)">
+                <rect x={-LABEL_SIZE} y={index * cellSize} width={LABEL_SIZE + gridSize} height={cellSize} />
+                <rect x={index * cellSize} y={-LABEL_SIZE} width={cellSize} height={LABEL_SIZE + gridSize} />
+              </g>
+            ))}
+
+            {ordered.map((row, rowIndex) => ordered.map((column, columnIndex) => {
+              if (row === column) return null;
+              const link = lookup.get(getPairKey(row, column));
+              return (
+                <rect
+                  key={`${row}\u0000${column}`}
+                  x={columnIndex * cellSize}
+                  y={rowIndex * cellSize}
+                  width={cellSize - 1}
+                  height={cellSize - 1}
+                  fill={link ? shade(link.weight) : 'rgba(255,255,255,0.04)'}
+                  style={{ cursor: link && onLinkClick ? 'pointer' : 'default' }}
+                  onMouseEnter={(event) => {
+                    const box = event.currentTarget.ownerSVGElement!.getBoundingClientRect();
+                    setHovered({ row, column, x: event.clientX - box.left, y: event.clientY - box.top });
+                  }}
+                  onClick={() => link && onLinkClick?.(link)}
+                />
+              );
+            }))}
+
+            {ordered.map((name, index) => (
+              <g key={`labels-${name}`} style={{ cursor: 'pointer' }} onClick={() => onCharacterClick(name)}>
+                <text
+                  x={-6}
+                  y={index * cellSize + cellSize / 2}
+                  textAnchor="end"
+                  dominantBaseline="central"
+                  fontSize={fontSize}
+                  fontWeight={isInHighlight(name) || hovered?.row === name ? 700 : 400}
+                  fill={isInHighlight(name) ? '#ff4757' : 'white'}
+                >
+                  {name.length > 18 ? `${name.slice(0, 16)}…` : name}
+                </text>
+                <text
+                  transform={`translate(${index * cellSize + cellSize / 2},-6) rotate(-60)`}
+                  dominantBaseline="central"
+                  fontSize={fontSize}
+                  fontWeight={isInHighlight(name) || hovered?.column === name ? 700 : 400}
+                  fill={isInHighlight(name) ? '#ff4757' : 'white'}
+                >
+                  {name.length > 18 ? `${name.slice(0, 16)}…` : name}
+                </text>
+              </g>
+            ))}
+          </g>
+        </svg>
+
+        {hovered && (
+          <Box
+            sx={{
+              position: 'absolute',
+              left: hovered.x + 16,
+              top: hovered.y + 16,
+              maxWidth: 320,
+              p: 1.5,
+              borderRadius: 1,
+              bgcolor: 'rgba(20, 20, 20, 0.92)',
+              border: '1px solid #444',
+              pointerEvents: 'none',
+              zIndex: 3
+            }}
+          >
+            <Typography variant="body2" fontWeight="600">
+              {hovered.row} ↔ {hovered.column}
+            </Typography>
+            {hoveredLink ? (
+              <>
+                <Typography variant="caption" sx={{ display: 'block', opacity: 0.8, mb: 0.5 }}>
+                  Weight {hoveredLink.weight} • {hoveredLink.contexts.length} passages
+                </Typography>
+                {hoveredLink.contexts.slice(0, MAX_CONTEXTS).map((context, index) => (
+                  <Typography key={index} variant="caption" sx={{ display: 'block', fontStyle: 'italic', opacity: 0.85, mb: 0.5 }}>
+                    “{context.length > 160 ? `${context.slice(0, 157)}...` : context}”
+                  </Typography>
+                ))}
+              </>
+            ) : (
+              <Typography variant="caption" sx={{ opacity: 0.7 }}>
+                No interaction
+              </Typography>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+  Collapse,
+  Alert
+} from '@mui/material';
+import { LibraryBooks, FolderOpen, Refresh, Delete, ExpandMore, ExpandLess } from '@mui/icons-material';
+import type { SavedAnalysis } from '../types';
+
+interface AnalysisLibraryProps {
+  analyses: SavedAnalysis[];
+  error: string | null;
+  isAnalyzing: boolean;
+  activeBookId?: number;
+  onOpen: (analysis: SavedAnalysis) => void;
+  onRerun: (analysis: SavedAnalysis) => void;
+  canRerun?: (analysis: SavedAnalysis) => boolean; // uploaded texts can only be re-run while still in memory
+  onDelete: (analysis: SavedAnalysis) => void;
+}
+
+export const AnalysisLibrary: React.FC<AnalysisLibraryProps> = ({
+  analyses,
+  error,
+  isAnalyzing,
+  activeBookId,
+  onOpen,
+  onRerun,
+  canRerun = () => true,
+  onDelete
+}) => {
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Box
+        sx={{ display: 'flex', alignItems: 'center', gap: 1, cursor: 'pointer' }}
+        onClick={() => setExpanded(prev => !prev)}
+      >
+        <LibraryBooks color="primary" />
+        <Typography variant="h6">My analyses</Typography>
+        <Chip label={analyses.length} size="small" color="primary" variant="outlined" />
+        <Box sx={{ ml: 'auto', display: 'flex' }}>
+          {expanded ? <ExpandLess /> : <ExpandMore />}
+        </Box>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 2 }}>
+          Completed analyses are saved in this browser and reopen instantly without contacting the server.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <List sx={{ p: 0, maxHeight: 320, overflow: 'auto' }}>
+          {analyses.map(analysis => (
+            <ListItem
+              key={analysis.bookId}
+              sx={{
+                mb: 1,
+                bgcolor: analysis.bookId === activeBookId ? 'primary.light' : 'grey.50',
+                borderRadius: 2,
+                borderLeft: 4,
+                borderLeftColor: 'primary.main'
+              }}
+              secondaryAction={
+                <Box sx={{ display: 'flex', gap: 0.5 }}>
+                  <Tooltip title="Open saved result" arrow>
+                    <span>
+                      <IconButton size="small" onClick={() => onOpen(analysis)} disabled={isAnalyzing}>
+                        <FolderOpen fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title={canRerun(analysis) ? 'Re-run analysis' : 'Upload the text again to re-run it'} arrow>
+                    <span>
+                      <IconButton size="small" onClick={() => onRerun(analysis)} disabled={isAnalyzing || !canRerun(analysis)}>
+                        <Refresh fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Delete" arrow>
+                    <IconButton size="small" onClick={() => onDelete(analysis)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                sx={{ pr: 14 }}
+                primary={
+                  <Typography variant="body1" fontWeight="600" noWrap>
+                    {analysis.title}
+                  </Typography>
+                }
+                secondary={
+                  <Typography variant="caption" color="text.secondary">
+                    {analysis.bookId < 0 ? 'Uploaded text' : `ID: ${analysis.bookId}`} • {analysis.result.characters.length} characters •{' '}
+                    {analysis.result.interactions.length} interactions • Saved{' '}
+                    {new Date(analysis.savedAt).toLocaleString()}
+                  </Typography>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+    </Paper>
+  );
+};
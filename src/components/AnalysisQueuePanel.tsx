@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+  Collapse,
+  Button,
+  TextField,
+  MenuItem,
+  LinearProgress
+} from '@mui/material';
+import {
+  PlaylistPlay,
+  PlayArrow,
+  Pause,
+  FolderOpen,
+  Replay,
+  Close,
+  ClearAll,
+  ExpandMore,
+  ExpandLess
+} from '@mui/icons-material';
+import type { QueueItem, QueueItemStatus } from '../types';
+
+interface AnalysisQueuePanelProps {
+  items: QueueItem[];
+  concurrency: number;
+  isRunning: boolean;
+  isAnalyzing: boolean;
+  activeBookId?: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRunningChange: (isRunning: boolean) => void;
+  onView: (item: QueueItem) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_CHIPS: Record<QueueItemStatus, { label: string; color: 'default' | 'primary' | 'success' | 'error' | 'warning' }> = {
+  queued: { label: 'Queued', color: 'default' },
+  running: { label: 'Running', color: 'primary' },
+  complete: { label: 'Done', color: 'success' },
+  error: { label: 'Failed', color: 'error' },
+  cancelled: { label: 'Cancelled', color: 'warning' }
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({
+  items,
+  concurrency,
+  isRunning,
+  isAnalyzing,
+  activeBookId,
+  onConcurrencyChange,
+  onRunningChange,
+  onView,
+  onRetry,
+  onRemove,
+  onClearFinished
+}) => {
+  const [expanded, setExpanded] = useState(true);
+
+  const doneCount = items.filter(item => item.status === 'complete').length;
+  const hasFinished = items.some(item => item.status !== 'queued' && item.status !== 'running');
+
+  const getSecondaryText = (item: QueueItem) => {
+    switch (item.status) {
+      case 'running':
+        return item.totalBatches
+          ? `Batch ${(item.batchIndex ?? 0) + 1}/${item.totalBatches}`
+          : 'Starting...';
+      case 'complete':
+        return `${item.result?.characters.length ?? 0} characters • ${item.result?.interactions.length ?? 0} interactions`;
+      case 'error':
+        return item.error ?? 'Analysis failed';
+      default:
+        return `Project Gutenberg ID: ${item.bookId}`;
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box
+          sx={{ display: 'flex', alignItems: 'center', gap: 1, cursor: 'pointer', flex: 1 }}
+          onClick={() => setExpanded(prev => !prev)}
+        >
+          <PlaylistPlay color="primary" />
+          <Typography variant="h6">Analysis queue</Typography>
+          <Chip label={`${doneCount}/${items.length} done`} size="small" color="primary" variant="outlined" />
+          {expanded ? <ExpandLess /> : <ExpandMore />}
+        </Box>
+
+        <TextField
+          select
+          size="small"
+          label="At a time"
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          sx={{ minWidth: 100 }}
+        >
+          {CONCURRENCY_OPTIONS.map(option => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+        <Button
+          variant={isRunning ? 'outlined' : 'contained'}
+          startIcon={isRunning ? <Pause /> : <PlayArrow />}
+          onClick={() => onRunningChange(!isRunning)}
+        >
+          {isRunning ? 'Pause queue' : 'Start queue'}
+        </Button>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 2 }}>
+          Each book runs in its own session. Pausing the queue lets running books finish but starts no new ones.
+        </Typography>
+
+        <List sx={{ p: 0, maxHeight: 360, overflow: 'auto' }}>
+          {items.map(item => (
+            <ListItem
+              key={item.id}
+              sx={{
+                mb: 1,
+                bgcolor: item.status === 'complete' && item.bookId === activeBookId ? 'primary.light' : 'grey.50',
+                borderRadius: 2,
+                borderLeft: 4,
+                borderLeftColor: item.status === 'queued' ? 'grey.400' : `${STATUS_CHIPS[item.status].color}.main`
+              }}
+              secondaryAction={
+                <Box sx={{ display: 'flex', gap: 0.5 }}>
+                  {item.status === 'complete' && (
+                    <Tooltip title="View result" arrow>
+                      <span>
+                        <IconButton size="small" onClick={() => onView(item)} disabled={isAnalyzing}>
+                          <FolderOpen fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )}
+                  {(item.status === 'error' || item.status === 'cancelled') && (
+                    <Tooltip title="Try again" arrow>
+                      <IconButton size="small" onClick={() => onRetry(item.id)}>
+                        <Replay fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title={item.status === 'running' ? 'Cancel and remove' : 'Remove'} arrow>
+                    <IconButton size="small" onClick={() => onRemove(item.id)}>
+                      <Close fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                sx={{ pr: 10 }}
+                slotProps={{ primary: { component: 'div' }, secondary: { component: 'div' } }}
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body1" fontWeight="600" noWrap>
+                      {item.title}
+                    </Typography>
+                    <Chip
+                      label={STATUS_CHIPS[item.status].label}
+                      color={STATUS_CHIPS[item.status].color}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </Box>
+                }
+                secondary={
+                  <Box>
+                    <Typography variant="caption" color={item.status === 'error' ? 'error' : 'text.secondary'}>
+                      {getSecondaryText(item)}
+                    </Typography>
+                    {item.status === 'running' && (
+                      <LinearProgress
+                        variant={item.totalBatches ? 'determinate' : 'indeterminate'}
+                        value={item.totalBatches ? (((item.batchIndex ?? 0) + 1) / item.totalBatches) * 100 : undefined}
+                        sx={{ mt: 0.5, height: 6, borderRadius: 3 }}
+                      />
+                    )}
+                  </Box>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        {hasFinished && (
+          <Button size="small" startIcon={<ClearAll />} onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </Collapse>
+    </Paper>
+  );
+};
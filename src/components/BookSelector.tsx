@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   Paper,
   TextField,
@@ -9,79 +9,109 @@ import {
   Alert,
   Button,
   Fade,
-  LinearProgress
+  LinearProgress,
+  Tooltip,
+  MenuItem,
+  Chip,
+  Link
 } from '@mui/material';
-import { Search, Book, Send, CheckCircle, Refresh } from '@mui/icons-material';
-
-// Import the local books data
-import booksData from '../assets/books_id_title.json';
-
-interface GutenbergBook {
-  id: number;
-  title: string;
-}
+import { Search, Book, Send, CheckCircle, Refresh, UploadFile, PlaylistAdd, OpenInNew, History, TrendingUp, Description } from '@mui/icons-material';
+import type { Book as CatalogueBook, CatalogueFilters, SelectedBook } from '../types';
+import {
+  DEFAULT_CATALOGUE_FILTERS,
+  getCatalogueFacets,
+  getLanguageName,
+  loadCatalogue
+} from '../utils/catalogue';
+import { useBookSearch } from '../hooks/useBookSearch';
 
 interface BookSelectorProps {
   onBookSelect: (bookId: number, bookTitle: string) => void;
   isAnalyzing: boolean;
-  selectedBook: { id: number; title: string } | null;
+  selectedBook: SelectedBook | null;
+  onImportClick?: () => void;
+  onUploadClick?: () => void;
+  onAddToQueue?: (bookId: number, bookTitle: string) => void;
 }
 
+// Bold the words of a title or author that matched the search
+const HighlightedText: React.FC<{ text: string; ranges: [number, number][] }> = ({ text, ranges }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <Box key={index} component="mark" sx={{ bgcolor: 'transparent', color: 'primary.main', fontWeight: 700 }}>
+        {text.slice(start, end)}
+      </Box>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
 export const BookSelector: React.FC<BookSelectorProps> = ({
   onBookSelect,
   isAnalyzing,
-  selectedBook
+  selectedBook,
+  onImportClick,
+  onUploadClick,
+  onAddToQueue
 }) => {
-  const [books, setBooks] = useState<GutenbergBook[]>([]);
+  const [books, setBooks] = useState<CatalogueBook[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchValue, setSearchValue] = useState('');
-  const [selectedOption, setSelectedOption] = useState<GutenbergBook | null>(selectedBook);
+  const [filters, setFilters] = useState<CatalogueFilters>(DEFAULT_CATALOGUE_FILTERS);
+  const [selectedOption, setSelectedOption] = useState<CatalogueBook | null>(null);
+  // The book open when the selector mounted, picked again once the catalogue has loaded
+  const initialBookIdRef = useRef(selectedBook?.source === 'import' ? null : selectedBook?.id ?? null);
 
-  // Load books from local JSON file
-  const loadBooksFromLocal = () => {
+  // Load books from the local catalogue
+  const loadBooksFromLocal = useCallback(async () => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      // Simulate a small delay to show loading state
-      setTimeout(() => {
-        setBooks(booksData as GutenbergBook[]);
-        setLoading(false);
-        console.log(`✅ Loaded ${booksData}`);
-      }, 300);
-      
+      const catalogue = await loadCatalogue();
+      setBooks(catalogue);
+      setSelectedOption(prev => prev ?? catalogue.find(book => book.id === initialBookIdRef.current) ?? null);
+      console.log(`✅ Loaded ${catalogue.length} books`);
     } catch (err) {
       console.error('Failed to load books:', err);
       setError(err instanceof Error ? err.message : 'Failed to load books');
+    } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   // Load books on component mount
   useEffect(() => {
     loadBooksFromLocal();
-  }, []);
+  }, [loadBooksFromLocal]);
+
+  const facets = useMemo(() => getCatalogueFacets(books), [books]);
 
-  // Filter books based on search input with improved performance
-  const filteredBooks = useMemo(() => {
-    if (!searchValue.trim()) return books.slice(0, 100); // Show first 100 books by default
-    
-    const searchLower = searchValue.toLowerCase();
-    const searchTerms = searchLower.split(' ').filter(term => term.length > 0);
-    
-    return books
-      .filter(book => {
-        const titleLower = book.title.toLowerCase();
-        const idMatch = book.id.toString().includes(searchValue);
-        
-        // Match if ID matches or all search terms are found in title
-        return idMatch || searchTerms.every(term => titleLower.includes(term));
-      })
-      .slice(0, 50); // Limit results for performance
-  }, [books, searchValue]);
+  // Ranked search over title, author and subjects within the chosen facets, run in a worker
+  const { results, total, recentSearches, popularSearches, rememberSearch } = useBookSearch(
+    books,
+    searchValue,
+    filters,
+    searchValue.trim() ? 50 : 100
+  );
+  const filteredBooks = useMemo(() => results.map(result => result.book), [results]);
+  const resultsById = useMemo(() => new Map(results.map(result => [result.book.id, result])), [results]);
+
+  const updateFilters = (changes: Partial<CatalogueFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
 
-  const handleBookSelection = (book: GutenbergBook | null) => {
+  const handleBookSelection = (book: CatalogueBook | null) => {
+    // Only queries that led somewhere count towards recent and popular searches
+    if (book) rememberSearch(searchValue);
     setSelectedOption(book);
   };
 
@@ -114,6 +144,28 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
             <CheckCircle color="success" />
           </Fade>
         )}
+        <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+          {onUploadClick && (
+            <Button
+              size="small"
+              startIcon={<Description />}
+              onClick={onUploadClick}
+              disabled={isAnalyzing}
+            >
+              Analyze your own text
+            </Button>
+          )}
+          {onImportClick && (
+            <Button
+              size="small"
+              startIcon={<UploadFile />}
+              onClick={onImportClick}
+              disabled={isAnalyzing}
+            >
+              Import network file
+            </Button>
+          )}
+        </Box>
       </Box>
 
       <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
@@ -157,6 +209,7 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
           <Autocomplete
             options={filteredBooks}
             getOptionLabel={(option) => `${option.title} (ID: ${option.id})`}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
             value={selectedOption}
             onChange={(_, newValue) => handleBookSelection(newValue)}
             inputValue={searchValue}
@@ -167,7 +220,7 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
               <TextField
                 {...params}
                 label="Search for a book..."
-                placeholder="Try 'Pride and Prejudice', 'Dracula', or enter book ID"
+                placeholder="Try 'Pride and Prejudice', 'Austen', 'vampires', or enter book ID"
                 variant="outlined"
                 fullWidth
                 InputProps={{
@@ -194,10 +247,17 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
               <Box component="li" {...props}>
                 <Box sx={{ width: '100%' }}>
                   <Typography variant="body1" noWrap>
-                    {option.title}
+                    <HighlightedText text={option.title} ranges={resultsById.get(option.id)?.titleRanges ?? []} />
                   </Typography>
+                  {option.author && (
+                    <Typography variant="body2" color="text.secondary" noWrap>
+                      <HighlightedText text={option.author} ranges={resultsById.get(option.id)?.authorRanges ?? []} />
+                    </Typography>
+                  )}
                   <Typography variant="caption" color="text.secondary">
                     Project Gutenberg ID: {option.id}
+                    {option.language && ` • ${getLanguageName(option.language)}`}
+                    {option.downloads > 0 && ` • ${option.downloads.toLocaleString()} downloads`}
                   </Typography>
                 </Box>
               </Box>
@@ -207,15 +267,100 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
               searchValue ? "No books found matching your search" : 
               "Start typing to search through thousands of books..."
             }
-            filterOptions={(x) => x} // We handle filtering manually for better performance
+            filterOptions={(x) => x} // Filtering and ranking happen in the search worker
           />
           
           <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
             {loading ? 'Loading...' : `${books.length.toLocaleString()} books available`}
-            {filteredBooks.length < books.length && searchValue && (
-              ` • Showing top ${filteredBooks.length} results`
+            {total < books.length && (searchValue || filters.language || filters.subject) && (
+              ` • ${total.toLocaleString()} matches`
             )}
+            {filteredBooks.length < total && ` • Showing top ${filteredBooks.length} results`}
           </Typography>
+
+          {!selectedOption && (recentSearches.length > 0 || popularSearches.length > 0) && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 1 }}>
+              {recentSearches.map(query => (
+                <Chip
+                  key={`recent-${query}`}
+                  icon={<History />}
+                  label={query}
+                  size="small"
+                  variant="outlined"
+                  onClick={() => setSearchValue(query)}
+                  disabled={isAnalyzing}
+                />
+              ))}
+              {popularSearches.filter(query => !recentSearches.includes(query)).map(query => (
+                <Chip
+                  key={`popular-${query}`}
+                  icon={<TrendingUp />}
+                  label={query}
+                  size="small"
+                  variant="outlined"
+                  color="primary"
+                  onClick={() => setSearchValue(query)}
+                  disabled={isAnalyzing}
+                />
+              ))}
+            </Box>
+          )}
+
+          {/* Facets only appear when the catalogue carries languages or subjects */}
+          {(facets.languages.length > 0 || facets.subjects.length > 0) && (
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 2 }}>
+              {facets.languages.length > 0 && (
+                <TextField
+                  select
+                  size="small"
+                  label="Language"
+                  value={filters.language ?? ''}
+                  onChange={(e) => updateFilters({ language: e.target.value || null })}
+                  disabled={isAnalyzing}
+                  sx={{ minWidth: 180 }}
+                >
+                  <MenuItem value="">All languages</MenuItem>
+                  {facets.languages.map(facet => (
+                    <MenuItem key={facet.value} value={facet.value}>
+                      {getLanguageName(facet.value)} ({facet.count.toLocaleString()})
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {facets.subjects.length > 0 && (
+                <Autocomplete
+                  size="small"
+                  options={facets.subjects.map(facet => facet.value)}
+                  value={filters.subject}
+                  onChange={(_, subject) => updateFilters({ subject })}
+                  renderOption={(props, subject) => (
+                    <Box component="li" {...props}>
+                      <Typography variant="body2" sx={{ flex: 1 }}>{subject}</Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        {facets.subjects.find(facet => facet.value === subject)?.count.toLocaleString()}
+                      </Typography>
+                    </Box>
+                  )}
+                  disabled={isAnalyzing}
+                  sx={{ flex: 1, minWidth: 240 }}
+                  renderInput={(params) => <TextField {...params} label="Subject" />}
+                />
+              )}
+              <TextField
+                select
+                size="small"
+                label="Sort by"
+                value={filters.sortBy}
+                onChange={(e) => updateFilters({ sortBy: e.target.value as CatalogueFilters['sortBy'] })}
+                disabled={isAnalyzing}
+                sx={{ minWidth: 160 }}
+              >
+                <MenuItem value="relevance">Relevance</MenuItem>
+                <MenuItem value="downloads">Most downloaded</MenuItem>
+                <MenuItem value="title">Title</MenuItem>
+              </TextField>
+            </Box>
+          )}
         </Box>
 
         <Button
@@ -239,6 +384,22 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
         >
           Analyze Book
         </Button>
+
+        {onAddToQueue && (
+          <Tooltip title="Analyze in the background as part of a reading list" arrow>
+            <span>
+              <Button
+                variant="outlined"
+                startIcon={<PlaylistAdd />}
+                onClick={() => selectedOption && onAddToQueue(selectedOption.id, selectedOption.title)}
+                disabled={!selectedOption}
+                sx={{ height: 56, minWidth: 140 }}
+              >
+                Add to queue
+              </Button>
+            </span>
+          </Tooltip>
+        )}
       </Box>
 
       {selectedOption && (
@@ -253,9 +414,47 @@ export const BookSelector: React.FC<BookSelectorProps> = ({
             <Typography variant="body1" fontWeight="600" sx={{ mb: 0.5 }}>
               {selectedOption.title}
             </Typography>
-            <Typography variant="caption" color="text.secondary">
-              Project Gutenberg ID: {selectedOption.id}
-            </Typography>
+            {selectedOption.author && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                by {selectedOption.author}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+              {selectedOption.language && (
+                <Chip label={getLanguageName(selectedOption.language)} size="small" variant="outlined" />
+              )}
+              {selectedOption.downloads > 0 && (
+                <Chip label={`${selectedOption.downloads.toLocaleString()} downloads`} size="small" variant="outlined" />
+              )}
+              {selectedOption.subjects.map(subject => (
+                <Chip
+                  key={subject}
+                  label={subject}
+                  size="small"
+                  onClick={() => updateFilters({ subject })}
+                />
+              ))}
+            </Box>
+            {selectedOption.description && (
+              <Typography variant="body2" sx={{ mb: 1, lineHeight: 1.6 }}>
+                {selectedOption.description}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Typography variant="caption" color="text.secondary">
+                Project Gutenberg ID: {selectedOption.id}
+              </Typography>
+              <Link
+                href={selectedOption.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                variant="caption"
+                sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+              >
+                View on Project Gutenberg
+                <OpenInNew sx={{ fontSize: 14 }} />
+              </Link>
+            </Box>
           </Box>
         </Fade>
       )}
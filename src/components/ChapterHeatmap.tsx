@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { Paper, Box, Typography, Tooltip } from '@mui/material';
+import { GridOn } from '@mui/icons-material';
+import type { ChapterInfo, ChapterRange, Character } from '../types';
+
+interface ChapterHeatmapProps {
+  characters: Character[];
+  chapters: ChapterInfo[];
+  range: ChapterRange | null;
+  highlightedCharacter: string | null;
+  onCharacterClick: (character: string) => void;
+  onChapterClick: (range: ChapterRange) => void;
+}
+
+const MAX_ROWS = 15;
+const NAME_COLUMN_WIDTH = 110;
+
+export const ChapterHeatmap: React.FC<ChapterHeatmapProps> = ({
+  characters,
+  chapters,
+  range,
+  highlightedCharacter,
+  onCharacterClick,
+  onChapterClick
+}) => {
+  // Most mentioned characters, each shaded against their own busiest chapter
+  const rows = useMemo(() => characters
+    .filter(char => char.chapterMentions)
+    .sort((a, b) => b.mentions - a.mentions)
+    .slice(0, MAX_ROWS)
+    .map(char => {
+      const counts = chapters.map((_, index) => char.chapterMentions?.[index] ?? 0);
+      return { name: char.name, counts, peak: Math.max(1, ...counts) };
+    }), [characters, chapters]);
+
+  const isInRange = (index: number) => !range || (index >= range.start && index <= range.end);
+
+  return (
+    <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+      <Typography variant="subtitle1" fontWeight="600" sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <GridOn color="primary" fontSize="small" />
+        Character Presence
+      </Typography>
+
+      {rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No per-chapter mentions in this analysis.
+        </Typography>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: `${NAME_COLUMN_WIDTH}px repeat(${chapters.length}, minmax(4px, 1fr))`,
+            gap: '2px',
+            alignItems: 'center'
+          }}
+        >
+          <Box />
+          {chapters.map(chapter => (
+            <Tooltip key={chapter.index} title={`Show only ${chapter.title}`} arrow>
+              <Box
+                onClick={() => onChapterClick({ start: chapter.index, end: chapter.index })}
+                sx={{
+                  height: 8,
+                  cursor: 'pointer',
+                  borderRadius: 0.5,
+                  bgcolor: isInRange(chapter.index) ? 'primary.main' : 'grey.300'
+                }}
+              />
+            </Tooltip>
+          ))}
+
+          {rows.map(row => (
+            <React.Fragment key={row.name}>
+              <Typography
+                variant="caption"
+                noWrap
+                onClick={() => onCharacterClick(row.name)}
+                sx={{
+                  cursor: 'pointer',
+                  pr: 1,
+                  fontWeight: row.name === highlightedCharacter ? 700 : 400,
+                  color: row.name === highlightedCharacter ? 'primary.main' : 'text.primary'
+                }}
+              >
+                {row.name}
+              </Typography>
+              {row.counts.map((count, index) => (
+                <Tooltip key={index} title={`${row.name} • ${chapters[index].title}: ${count} mentions`} arrow>
+                  <Box
+                    sx={{
+                      height: 16,
+                      borderRadius: 0.5,
+                      bgcolor: count > 0 ? `rgba(102, 126, 234, ${0.15 + 0.85 * (count / row.peak)})` : 'grey.100',
+                      opacity: isInRange(index) ? 1 : 0.35
+                    }}
+                  />
+                </Tooltip>
+              ))}
+            </React.Fragment>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Paper, Box, Typography, Slider, Button } from '@mui/material';
+import { MenuBook } from '@mui/icons-material';
+import type { ChapterInfo, ChapterRange } from '../types';
+
+interface ChapterRangeSelectorProps {
+  chapters: ChapterInfo[];
+  range: ChapterRange | null;
+  onRangeChange: (range: ChapterRange | null) => void;
+}
+
+export const ChapterRangeSelector: React.FC<ChapterRangeSelectorProps> = ({ chapters, range, onRangeChange }) => {
+  // Thumb position while dragging; the network is only re-sliced once the drag ends
+  const [dragValue, setDragValue] = useState<number[] | null>(null);
+
+  const lastChapter = chapters.length - 1;
+  const value = dragValue ?? [
+    Math.min(range?.start ?? 0, lastChapter),
+    Math.min(range?.end ?? lastChapter, lastChapter)
+  ];
+  const [start, end] = value;
+  const isFullRange = start === 0 && end === lastChapter;
+
+  const commit = (next: number[]) => {
+    setDragValue(null);
+    onRangeChange(next[0] === 0 && next[1] === lastChapter ? null : { start: next[0], end: next[1] });
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <MenuBook color="primary" />
+        <Typography variant="subtitle1" fontWeight="600">
+          Chapters
+        </Typography>
+        <Typography variant="body2" color="text.secondary" noWrap>
+          {isFullRange
+            ? `Whole book • ${chapters.length} sections`
+            : start === end
+              ? chapters[start]?.title
+              : `${chapters[start]?.title} to ${chapters[end]?.title}`}
+        </Typography>
+        <Button size="small" onClick={() => commit([0, lastChapter])} disabled={isFullRange} sx={{ ml: 'auto' }}>
+          All chapters
+        </Button>
+      </Box>
+
+      <Slider
+        value={value}
+        min={0}
+        max={Math.max(0, lastChapter)}
+        step={1}
+        marks={chapters.length <= 40}
+        disableSwap
+        disabled={chapters.length < 2}
+        onChange={(_, next) => setDragValue(next as number[])}
+        onChangeCommitted={(_, next) => commit(next as number[])}
+        valueLabelDisplay="auto"
+        valueLabelFormat={(index) => chapters[index]?.title ?? ''}
+        sx={{ mx: 1, width: 'calc(100% - 16px)' }}
+      />
+    </Paper>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  Button,
+  Rating,
+  Collapse,
+  Divider,
+  Link,
+  Tooltip
+} from '@mui/material';
+import { ArrowBack, Close, Person, ExpandMore, ExpandLess, TravelExplore } from '@mui/icons-material';
+import type { CharacterDetail } from '../types';
+import { METRIC_KEYS, METRIC_LABELS } from '../utils/graphMetrics';
+import { HighlightedContext } from './ContextDrawer';
+
+interface CharacterDetailDrawerProps {
+  detail: CharacterDetail | null;
+  canGoBack: boolean;
+  onBack: () => void;
+  onClose: () => void;
+  onOpenCharacter: (character: string) => void;
+  onShowInGraph: (character: string) => void;
+}
+
+const CONTEXTS_SHOWN = 5;
+
+const formatMetric = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(3));
+
+const Stat: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <Box sx={{ p: 1.5, borderRadius: 2, bgcolor: 'grey.50' }}>
+    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+      {label}
+    </Typography>
+    <Typography variant="subtitle1" fontWeight="600" component="div">
+      {children}
+    </Typography>
+  </Box>
+);
+
+export const CharacterDetailDrawer: React.FC<CharacterDetailDrawerProps> = ({
+  detail,
+  canGoBack,
+  onBack,
+  onClose,
+  onOpenCharacter,
+  onShowInGraph
+}) => {
+  const [expandedPartner, setExpandedPartner] = useState<string | null>(null);
+  const [showAllContexts, setShowAllContexts] = useState(false);
+  const [activeName, setActiveName] = useState<string | null>(detail?.character.name ?? null);
+
+  // Collapse the quotes whenever another character is opened
+  const name = detail?.character.name ?? null;
+  if (name !== activeName) {
+    setActiveName(name);
+    setExpandedPartner(null);
+    setShowAllContexts(false);
+  }
+
+  const togglePartner = (partner: string) => {
+    setExpandedPartner(prev => (prev === partner ? null : partner));
+    setShowAllContexts(false);
+  };
+
+  const aliases = detail
+    ? [...new Set([...(detail.character.aliases ?? []), ...detail.mergedNames])].filter(alias => alias !== name)
+    : [];
+  const maxWeight = Math.max(1, ...(detail?.partners.map(partner => partner.weight) ?? []));
+  const totalWeight = detail?.partners.reduce((sum, partner) => sum + partner.weight, 0) ?? 0;
+
+  return (
+    <Drawer
+      anchor="right"
+      open={!!detail}
+      onClose={onClose}
+      PaperProps={{ sx: { width: { xs: '100%', sm: 480 }, borderRadius: 0 } }}
+    >
+      {detail && (
+        <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', height: '100%' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            {canGoBack && (
+              <IconButton onClick={onBack} size="small" aria-label="Previous character">
+                <ArrowBack />
+              </IconButton>
+            )}
+            <Typography variant="h6" noWrap sx={{ display: 'flex', alignItems: 'center', gap: 1, flex: 1, minWidth: 0 }}>
+              <Person color="primary" />
+              {detail.character.name}
+            </Typography>
+            <Tooltip title="Show in graph" arrow>
+              <IconButton onClick={() => onShowInGraph(detail.character.name)} size="small" aria-label="Show in graph">
+                <TravelExplore />
+              </IconButton>
+            </Tooltip>
+            <IconButton onClick={onClose} size="small" aria-label="Close character details">
+              <Close />
+            </IconButton>
+          </Box>
+
+          <Box sx={{ flex: 1, overflow: 'auto' }}>
+            <Typography variant="body2" color={detail.character.description ? 'text.primary' : 'text.secondary'} sx={{ lineHeight: 1.7, mb: 2 }}>
+              {detail.character.description || 'No description was extracted for this character.'}
+            </Typography>
+
+            {aliases.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mb: 2 }}>
+                <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+                  Also known as
+                </Typography>
+                {aliases.map(alias => (
+                  <Chip key={alias} label={alias} size="small" variant="outlined" />
+                ))}
+              </Box>
+            )}
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1, mb: 2 }}>
+              <Stat label="Mentions">{detail.character.mentions}</Stat>
+              <Stat label="Importance">
+                <Rating value={detail.importance} max={5} size="small" readOnly />
+              </Stat>
+              <Stat label="Interaction partners">{detail.partners.length}</Stat>
+              <Stat label="Total interaction weight">{totalWeight}</Stat>
+              {detail.metrics && METRIC_KEYS.map(key => (
+                <Stat key={key} label={METRIC_LABELS[key].label}>
+                  {formatMetric(detail.metrics![key])}
+                </Stat>
+              ))}
+            </Box>
+
+            <Divider sx={{ mb: 2 }} />
+
+            <Typography variant="subtitle1" fontWeight="600" gutterBottom>
+              Interaction partners
+            </Typography>
+            {detail.partners.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', mt: 2 }}>
+                {detail.character.name} does not interact with anyone in the selected chapters.
+              </Typography>
+            ) : detail.partners.map((partner, index) => {
+              const isExpanded = expandedPartner === partner.name;
+              const contexts = isExpanded && !showAllContexts ? partner.contexts.slice(0, CONTEXTS_SHOWN) : partner.contexts;
+
+              return (
+                <Box key={partner.name} sx={{ mb: 1 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="caption" color="text.secondary" sx={{ width: 24, textAlign: 'right' }}>
+                      {index + 1}
+                    </Typography>
+                    <Link
+                      component="button"
+                      variant="body2"
+                      underline="hover"
+                      onClick={() => onOpenCharacter(partner.name)}
+                      sx={{ width: 120, textAlign: 'left', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                    >
+                      {partner.name}
+                    </Link>
+                    <Box sx={{ flex: 1, height: 14, borderRadius: 1, bgcolor: 'grey.100' }}>
+                      <Box
+                        sx={{
+                          width: `${(partner.weight / maxWeight) * 100}%`,
+                          height: '100%',
+                          borderRadius: 1,
+                          background: 'linear-gradient(45deg, #667eea 30%, #764ba2 90%)'
+                        }}
+                      />
+                    </Box>
+                    <Typography variant="body2" fontWeight="600" sx={{ width: 32, textAlign: 'right' }}>
+                      {partner.weight}
+                    </Typography>
+                    <IconButton
+                      size="small"
+                      onClick={() => togglePartner(partner.name)}
+                      disabled={partner.contexts.length === 0}
+                      aria-label={`Quotes with ${partner.name}`}
+                    >
+                      {isExpanded ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+                    </IconButton>
+                  </Box>
+
+                  <Collapse in={isExpanded} unmountOnExit>
+                    <Box sx={{ pl: 4, pt: 1 }}>
+                      {contexts.map((context, contextIndex) => (
+                        <Typography
+                          key={contextIndex}
+                          variant="body2"
+                          sx={{ lineHeight: 1.7, mb: 1, p: 1.5, bgcolor: 'grey.50', borderRadius: 2, borderLeft: 4, borderLeftColor: 'primary.main' }}
+                        >
+                          <HighlightedContext text={context} source={detail.character.name} target={partner.name} />
+                        </Typography>
+                      ))}
+                      {partner.contexts.length > CONTEXTS_SHOWN && (
+                        <Button size="small" onClick={() => setShowAllContexts(prev => !prev)}>
+                          {showAllContexts ? 'Show fewer' : `Show all ${partner.contexts.length} passages`}
+                        </Button>
+                      )}
+                    </Box>
+                  </Collapse>
+                </Box>
+              );
+            })}
+          </Box>
+        </Box>
+      )}
+    </Drawer>
+  );
+};
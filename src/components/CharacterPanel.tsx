@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Paper,
   Typography,
@@ -9,9 +9,23 @@ import {
   ListItem,
   ListItemText,
   InputAdornment,
-  Fade
+  Fade,
+  IconButton,
+  Tooltip,
+  ToggleButtonGroup,
+  ToggleButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableSortLabel
 } from '@mui/material';
-import { Search, Person } from '@mui/icons-material';
+import { Search, Person, MergeType, Hub, TableChart, Difference, Route, InfoOutlined } from '@mui/icons-material';
+import type { AnalysisDiff, ChangeKind, MetricKey, NetworkLink, NodeMetrics } from '../types';
+import { METRIC_KEYS, METRIC_LABELS } from '../utils/graphMetrics';
+import { DIFF_COLORS } from '../utils/diff';
+import { PathFinder } from './PathFinder';
 
 interface CharacterInteraction {
   character: string;
@@ -23,51 +37,288 @@ interface CharacterPanelProps {
   characters: CharacterInteraction[];
   onCharacterClick: (character: string) => void;
   highlightedCharacter: string | null;
+  onManageCharacters?: () => void;
+  metrics?: Record<string, NodeMetrics>;
+  diff?: AnalysisDiff | null;
+  links?: NetworkLink[];
+  onPathChange?: (path: string[] | null) => void; // enables the path finder
+  onShowDetails?: (character: string) => void;
 }
 
+type SortKey = 'character' | MetricKey | 'community';
+
+const formatMetric = (key: MetricKey, value: number) =>
+  key === 'degree' || key === 'weightedDegree' ? value.toString() : value.toFixed(3);
+
+const CHANGE_LABELS: Record<Exclude<ChangeKind, 'unchanged'>, string> = {
+  added: 'New',
+  removed: 'Gone',
+  changed: 'Changed'
+};
+
+// e.g. "+3 mentions (5 → 8)"
+const formatChange = (before: number, after: number, unit: string) => {
+  const delta = after - before;
+  return `${delta > 0 ? '+' : ''}${delta} ${unit} (${before} → ${after})`;
+};
+
 export const CharacterPanel: React.FC<CharacterPanelProps> = ({
   characters,
   onCharacterClick,
-  highlightedCharacter
+  highlightedCharacter,
+  onManageCharacters,
+  metrics,
+  diff,
+  links,
+  onPathChange,
+  onShowDetails
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedView, setView] = useState<'interactions' | 'metrics' | 'changes' | 'paths'>('interactions');
+  const [sortKey, setSortKey] = useState<SortKey>('betweenness');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  // The changes view only exists while a diff is active, the paths view when paths can be shown
+  const view = (selectedView === 'changes' && !diff) || (selectedView === 'paths' && !onPathChange)
+    ? 'interactions'
+    : selectedView;
 
   const filteredCharacters = characters.filter(item =>
     item.character.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const changes = useMemo(() => {
+    if (!diff) return [];
+    const matches = (name: string) => name.toLowerCase().includes(searchTerm.toLowerCase());
+
+    return [
+      ...diff.characters
+        .filter(change => change.kind !== 'unchanged' && matches(change.name))
+        .map(change => ({
+          key: change.name,
+          kind: change.kind as Exclude<ChangeKind, 'unchanged'>,
+          label: change.name,
+          character: change.name,
+          detail: formatChange(change.before, change.after, 'mentions')
+        })),
+      ...diff.interactions
+        .filter(change => change.kind !== 'unchanged' && (matches(change.source) || matches(change.target)))
+        .map(change => ({
+          key: `${change.source}\u0000${change.target}`,
+          kind: change.kind as Exclude<ChangeKind, 'unchanged'>,
+          label: `${change.source} ↔ ${change.target}`,
+          character: change.source,
+          detail: formatChange(change.before, change.after, 'weight')
+        }))
+    ];
+  }, [diff, searchTerm]);
+
+  const sortedMetricRows = useMemo(() => {
+    if (!metrics) return [];
+    const direction = sortDirection === 'asc' ? 1 : -1;
+
+    return filteredCharacters
+      .filter(item => metrics[item.character])
+      .map(item => ({ character: item.character, ...metrics[item.character] }))
+      .sort((a, b) => {
+        if (sortKey === 'character') return direction * a.character.localeCompare(b.character);
+        return direction * (a[sortKey] - b[sortKey]);
+      });
+  }, [filteredCharacters, metrics, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'character' ? 'asc' : 'desc');
+    }
+  };
+
   return (
     <Paper elevation={3} sx={{ p: 3, height: '700px', overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
       <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
         <Person color="primary" />
         Character Network
+        {onManageCharacters && (
+          <Tooltip title="Merge or split characters" arrow>
+            <IconButton size="small" onClick={onManageCharacters} sx={{ ml: 'auto' }}>
+              <MergeType fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
       </Typography>
 
-      <TextField
-        fullWidth
-        variant="outlined"
-        placeholder="Search characters..."
-        value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
-        size="small"
-        sx={{ mb: 2 }}
-        InputProps={{
-          startAdornment: (
-            <InputAdornment position="start">
-              <Search color="action" />
-            </InputAdornment>
-          ),
-        }}
-      />
+      {(metrics || diff || onPathChange) && (
+        <ToggleButtonGroup
+          value={view}
+          exclusive
+          onChange={(_, value) => value && setView(value)}
+          size="small"
+          fullWidth
+          sx={{ mb: 2, '& .MuiToggleButton-root': { px: 0.5, fontSize: '0.75rem' } }}
+        >
+          <ToggleButton value="interactions">
+            <Hub fontSize="small" sx={{ mr: 1 }} />
+            Interactions
+          </ToggleButton>
+          {metrics && (
+            <ToggleButton value="metrics">
+              <TableChart fontSize="small" sx={{ mr: 1 }} />
+              Metrics
+            </ToggleButton>
+          )}
+          {diff && (
+            <ToggleButton value="changes">
+              <Difference fontSize="small" sx={{ mr: 1 }} />
+              Changes
+            </ToggleButton>
+          )}
+          {onPathChange && (
+            <ToggleButton value="paths">
+              <Route fontSize="small" sx={{ mr: 1 }} />
+              Paths
+            </ToggleButton>
+          )}
+        </ToggleButtonGroup>
+      )}
+
+      {view !== 'paths' && (
+        <TextField
+          fullWidth
+          variant="outlined"
+          placeholder="Search characters..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          size="small"
+          sx={{ mb: 2 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search color="action" />
+              </InputAdornment>
+            ),
+          }}
+        />
+      )}
 
       <Box sx={{ flex: 1, overflow: 'auto' }}>
-        {filteredCharacters.length === 0 ? (
+        {view === 'paths' && onPathChange ? (
+          <PathFinder
+            characters={characters.map(item => item.character).sort((a, b) => a.localeCompare(b))}
+            links={links ?? []}
+            onPathChange={onPathChange}
+            onCharacterClick={onCharacterClick}
+          />
+        ) : view === 'changes' ? (
+          changes.length === 0 ? (
+            <Box sx={{ textAlign: 'center', mt: 4, color: 'text.secondary' }}>
+              {searchTerm ? 'No changes found matching your search.' : 'No differences between the two runs.'}
+            </Box>
+          ) : (
+            <List sx={{ p: 0 }}>
+              {changes.map(change => (
+                <ListItem
+                  key={change.key}
+                  onClick={() => onCharacterClick(change.character)}
+                  sx={{
+                    mb: 1,
+                    bgcolor: highlightedCharacter === change.character ? 'primary.light' : 'grey.50',
+                    borderRadius: 2,
+                    borderLeft: 4,
+                    borderLeftColor: DIFF_COLORS[change.kind],
+                    cursor: 'pointer',
+                    '&:hover': { bgcolor: 'primary.light' }
+                  }}
+                >
+                  <ListItemText
+                    slotProps={{ primary: { component: 'div' } }}
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" fontWeight="600" noWrap sx={{ flex: 1 }}>
+                          {change.label}
+                        </Typography>
+                        <Chip
+                          label={CHANGE_LABELS[change.kind]}
+                          size="small"
+                          sx={{ bgcolor: DIFF_COLORS[change.kind], color: 'white', height: 20, fontSize: '0.7rem' }}
+                        />
+                      </Box>
+                    }
+                    secondary={change.detail}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )
+        ) : filteredCharacters.length === 0 ? (
           <Box sx={{ textAlign: 'center', mt: 4, color: 'text.secondary' }}>
             {characters.length === 0 ? 
               'Start analysis to see character interactions...' : 
               'No characters found matching your search.'
             }
           </Box>
+        ) : view === 'metrics' && metrics ? (
+          <Table size="small" stickyHeader sx={{ '& .MuiTableCell-root': { px: 0.75, fontSize: '0.75rem' } }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  <TableSortLabel
+                    active={sortKey === 'character'}
+                    direction={sortKey === 'character' ? sortDirection : 'asc'}
+                    onClick={() => handleSort('character')}
+                  >
+                    Name
+                  </TableSortLabel>
+                </TableCell>
+                {METRIC_KEYS.map(key => (
+                  <TableCell key={key} align="right">
+                    <Tooltip title={METRIC_LABELS[key].label} arrow>
+                      <TableSortLabel
+                        active={sortKey === key}
+                        direction={sortKey === key ? sortDirection : 'desc'}
+                        onClick={() => handleSort(key)}
+                      >
+                        {METRIC_LABELS[key].short}
+                      </TableSortLabel>
+                    </Tooltip>
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  <Tooltip title="Community (Louvain)" arrow>
+                    <TableSortLabel
+                      active={sortKey === 'community'}
+                      direction={sortKey === 'community' ? sortDirection : 'asc'}
+                      onClick={() => handleSort('community')}
+                    >
+                      Com
+                    </TableSortLabel>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sortedMetricRows.map(row => (
+                <TableRow
+                  key={row.character}
+                  hover
+                  selected={highlightedCharacter === row.character}
+                  onClick={() => onCharacterClick(row.character)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={{ fontWeight: 600, maxWidth: 110, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {row.character}
+                  </TableCell>
+                  {METRIC_KEYS.map(key => (
+                    <TableCell key={key} align="right">
+                      {formatMetric(key, row[key])}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">{row.community + 1}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
         ) : (
           <List sx={{ p: 0 }}>
             {filteredCharacters.map((item, index) => (
@@ -91,18 +342,34 @@ export const CharacterPanel: React.FC<CharacterPanelProps> = ({
                   onClick={() => onCharacterClick(item.character)}
                 >
                   <ListItemText
+                    slotProps={{ primary: { component: 'div' } }}
                     primary={
-                      <Typography variant="subtitle1" fontWeight="bold" color="text.primary">
-                        {item.character}
-                        <Typography 
-                          component="span" 
-                          color="primary.main" 
-                          fontWeight="600"
-                          sx={{ ml: 1 }}
-                        >
-                          ({item.totalInteractions})
+                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                        <Typography variant="subtitle1" fontWeight="bold" color="text.primary" sx={{ flex: 1 }}>
+                          {item.character}
+                          <Typography 
+                            component="span" 
+                            color="primary.main" 
+                            fontWeight="600"
+                            sx={{ ml: 1 }}
+                          >
+                            ({item.totalInteractions})
+                          </Typography>
                         </Typography>
-                      </Typography>
+                        {onShowDetails && (
+                          <Tooltip title="Character details" arrow>
+                            <IconButton
+                              size="small"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onShowDetails(item.character);
+                              }}
+                            >
+                              <InfoOutlined fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
                     }
                     secondary={
                       <Box sx={{ mt: 1, display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
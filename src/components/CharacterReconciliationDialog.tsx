@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  Autocomplete,
+  TextField,
+  MenuItem,
+  Divider,
+  Alert
+} from '@mui/material';
+import { MergeType, CallSplit, RestartAlt } from '@mui/icons-material';
+import type { Character, CharacterOverrides } from '../types';
+
+interface CharacterReconciliationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  characters: Character[];
+  characterGroups: Record<string, string[]>;
+  overrides: CharacterOverrides;
+  onMerge: (names: string[], target: string) => void;
+  onSplit: (name: string) => void;
+  onReset: () => void;
+}
+
+export const CharacterReconciliationDialog: React.FC<CharacterReconciliationDialogProps> = ({
+  open,
+  onClose,
+  characters,
+  characterGroups,
+  overrides,
+  onMerge,
+  onSplit,
+  onReset
+}) => {
+  const [selectedNames, setSelectedNames] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+
+  const characterNames = useMemo(
+    () => [...characters].sort((a, b) => b.mentions - a.mentions).map(char => char.name),
+    [characters]
+  );
+
+  const mergedGroups = useMemo(
+    () => Object.entries(characterGroups)
+      .filter(([, members]) => members.length > 1)
+      .sort(([a], [b]) => a.localeCompare(b)),
+    [characterGroups]
+  );
+
+  const hasOverrides = Object.keys(overrides.merges).length > 0 || overrides.splits.length > 0;
+  const mergeTarget = selectedNames.includes(target) ? target : selectedNames[0] ?? '';
+
+  const handleMerge = () => {
+    if (selectedNames.length < 2 || !mergeTarget) return;
+    onMerge(selectedNames, mergeTarget);
+    setSelectedNames([]);
+    setTarget('');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <MergeType color="primary" />
+        Reconcile Characters
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Typography variant="subtitle2" gutterBottom>
+          Merge characters
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Pick two or more characters that are the same person. Their mentions and interactions will be combined.
+        </Typography>
+
+        <Autocomplete
+          multiple
+          options={characterNames}
+          value={selectedNames}
+          onChange={(_, value) => setSelectedNames(value)}
+          renderInput={(params) => (
+            <TextField {...params} label="Characters to merge" size="small" />
+          )}
+          sx={{ mb: 2 }}
+        />
+
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 3 }}>
+          <TextField
+            select
+            label="Keep name"
+            size="small"
+            value={mergeTarget}
+            onChange={(e) => setTarget(e.target.value)}
+            disabled={selectedNames.length < 2}
+            sx={{ flex: 1 }}
+          >
+            {selectedNames.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="contained"
+            startIcon={<MergeType />}
+            onClick={handleMerge}
+            disabled={selectedNames.length < 2}
+          >
+            Merge
+          </Button>
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Merged characters
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Remove a name from a group to split it back into its own character.
+        </Typography>
+
+        {mergedGroups.length === 0 ? (
+          <Alert severity="info">No characters have been merged yet.</Alert>
+        ) : (
+          mergedGroups.map(([canonical, members]) => (
+            <Box key={canonical} sx={{ mb: 2, p: 1.5, bgcolor: 'grey.50', borderRadius: 2 }}>
+              <Typography variant="body2" fontWeight="600" sx={{ mb: 1 }}>
+                {canonical}
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                {members.slice(1).map(member => (
+                  <Chip
+                    key={member}
+                    label={member}
+                    size="small"
+                    onDelete={() => onSplit(member)}
+                    deleteIcon={<CallSplit />}
+                    variant={overrides.merges[member] ? 'filled' : 'outlined'}
+                    color="primary"
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))
+        )}
+
+        {overrides.splits.length > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Kept apart from their aliases: {overrides.splits.join(', ')}
+          </Typography>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button startIcon={<RestartAlt />} onClick={onReset} disabled={!hasOverrides} color="inherit">
+          Reset manual changes
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
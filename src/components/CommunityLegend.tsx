@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, ButtonBase, Tooltip } from '@mui/material';
+import { Visibility, VisibilityOff } from '@mui/icons-material';
+import type { NetworkNode, NodeMetrics } from '../types';
+import { getCommunityColor } from '../utils/colors';
+
+interface CommunityLegendProps {
+  nodes: NetworkNode[];
+  metrics: Record<string, NodeMetrics>;
+  hiddenCommunities: number[];
+  onToggleCommunity: (community: number) => void;
+}
+
+export const CommunityLegend: React.FC<CommunityLegendProps> = ({
+  nodes,
+  metrics,
+  hiddenCommunities,
+  onToggleCommunity
+}) => {
+  // Members of each community, most mentioned first
+  const communities = useMemo(() => {
+    const members = new Map<number, NetworkNode[]>();
+    nodes.forEach(node => {
+      const community = metrics[node.id]?.community;
+      if (community === undefined) return;
+      members.set(community, [...(members.get(community) ?? []), node]);
+    });
+
+    return Array.from(members.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([community, group]) => ({
+        community,
+        members: [...group].sort((a, b) => b.mentions - a.mentions).map(node => node.name)
+      }));
+  }, [nodes, metrics]);
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        bottom: 12,
+        left: 12,
+        zIndex: 2,
+        maxHeight: '45%',
+        maxWidth: 260,
+        overflow: 'auto',
+        p: 1,
+        borderRadius: 2,
+        bgcolor: 'rgba(20, 20, 20, 0.75)',
+        backdropFilter: 'blur(4px)',
+        color: 'white'
+      }}
+    >
+      <Typography variant="caption" sx={{ display: 'block', px: 0.5, mb: 0.5, opacity: 0.7 }}>
+        Communities • click to toggle
+      </Typography>
+
+      {communities.map(({ community, members }) => {
+        const isHidden = hiddenCommunities.includes(community);
+        return (
+          <Tooltip key={community} title={members.join(', ')} placement="right" arrow>
+            <ButtonBase
+              onClick={() => onToggleCommunity(community)}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                width: '100%',
+                justifyContent: 'flex-start',
+                px: 0.5,
+                py: 0.25,
+                borderRadius: 1,
+                opacity: isHidden ? 0.4 : 1,
+                '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' }
+              }}
+            >
+              <Box
+                sx={{
+                  width: 12,
+                  height: 12,
+                  borderRadius: '50%',
+                  flexShrink: 0,
+                  bgcolor: getCommunityColor(community)
+                }}
+              />
+              <Typography variant="caption" noWrap sx={{ flex: 1, textAlign: 'left' }}>
+                {members.slice(0, 2).join(', ')}
+                {members.length > 2 && ` +${members.length - 2}`}
+              </Typography>
+              {isHidden
+                ? <VisibilityOff sx={{ fontSize: 14 }} />
+                : <Visibility sx={{ fontSize: 14, opacity: 0.6 }} />}
+            </ButtonBase>
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+};
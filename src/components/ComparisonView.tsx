@@ -0,0 +1,252 @@
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tooltip,
+  Alert,
+  Button
+} from '@mui/material';
+import { CompareArrows, CenterFocusStrong } from '@mui/icons-material';
+import type { AnalysisResult, NetworkSummary, ZoomState } from '../types';
+import { mergeAliases } from '../utils/aliases';
+import { buildNetwork } from '../utils/network';
+import { computeGraphMetrics, summarizeNetwork } from '../utils/graphMetrics';
+import { NetworkVisualization } from './NetworkVisualization';
+import { DegreeDistributionChart } from './DegreeDistributionChart';
+
+export interface ComparisonOption {
+  key: string;
+  label: string;
+  result: AnalysisResult;
+}
+
+interface ComparisonViewProps {
+  options: ComparisonOption[];
+  isMobile?: boolean;
+}
+
+const SIDE_COLORS = ['#667eea', '#e4572e'];
+const GRAPH_HEIGHT = 520;
+
+const SUMMARY_ROWS: { label: string; hint: string; format: (summary: NetworkSummary) => string }[] = [
+  { label: 'Characters', hint: 'Characters shown in the network', format: s => s.nodeCount.toString() },
+  { label: 'Interactions', hint: 'Linked character pairs', format: s => s.linkCount.toString() },
+  { label: 'Density', hint: 'Share of all possible pairs that interact', format: s => s.density.toFixed(3) },
+  { label: 'Average degree', hint: 'Mean number of partners per character', format: s => s.averageDegree.toFixed(2) },
+  { label: 'Communities', hint: 'Groups found by community detection', format: s => s.communityCount.toString() },
+  {
+    label: 'Top-3 weight share',
+    hint: 'Share of interaction weight on links touching the three most connected characters',
+    format: s => `${(s.topWeightShare * 100).toFixed(1)}%`
+  },
+  { label: 'Top characters', hint: 'Highest weighted degree', format: s => s.topCharacters.join(', ') }
+];
+
+// Same alias folding as the main view, without the user's manual merges
+const prepareNetwork = (result: AnalysisResult) => {
+  const { nodes, links } = buildNetwork(mergeAliases(result, { merges: {}, splits: [] }).result);
+  const metrics = computeGraphMetrics(nodes, links);
+  return { nodes, links, metrics, summary: summarizeNetwork(nodes, links, metrics) };
+};
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ options, isMobile = false }) => {
+  const [leftKey, setLeftKey] = useState(options[0]?.key ?? '');
+  const [rightKey, setRightKey] = useState(options[1]?.key ?? '');
+  const [highlightedCharacter, setHighlightedCharacter] = useState<string | null>(null);
+  const [zoom, setZoom] = useState<ZoomState | null>(null);
+  const [isZoomLinked, setIsZoomLinked] = useState(true);
+  const [graphWidth, setGraphWidth] = useState(500);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const hasEnoughOptions = options.length >= 2;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const width = entry.contentRect.width;
+      setGraphWidth(Math.max(280, isMobile ? width : (width - 24) / 2));
+    });
+    resizeObserver.observe(containerRef.current);
+    return () => resizeObserver.disconnect();
+  }, [isMobile, hasEnoughOptions]);
+
+  // Fall back to the first two networks until the user picks, or when a pick disappears
+  const left = options.find(option => option.key === leftKey) ?? options[0];
+  const right = options.find(option => option.key === rightKey) ?? options[1];
+  const leftNetwork = useMemo(() => (left ? prepareNetwork(left.result) : null), [left]);
+  const rightNetwork = useMemo(() => (right ? prepareNetwork(right.result) : null), [right]);
+  const sides = [
+    { option: left, network: leftNetwork, key: left?.key ?? '', setKey: setLeftKey },
+    { option: right, network: rightNetwork, key: right?.key ?? '', setKey: setRightKey }
+  ];
+
+  // Characters present in both books can be highlighted in both graphs at once
+  const handleCharacterClick = useCallback((character: string) => {
+    setHighlightedCharacter(prev => (prev === character ? null : character));
+  }, []);
+
+  const handleZoomChange = useCallback((transform: ZoomState) => {
+    setZoom(transform);
+  }, []);
+
+  const maxDegree = Math.max(
+    0,
+    (leftNetwork?.summary.degreeHistogram.length ?? 1) - 1,
+    (rightNetwork?.summary.degreeHistogram.length ?? 1) - 1
+  );
+  const maxCount = Math.max(
+    0,
+    ...(leftNetwork?.summary.degreeHistogram ?? []),
+    ...(rightNetwork?.summary.degreeHistogram ?? [])
+  );
+
+  if (!hasEnoughOptions) {
+    return (
+      <Alert severity="info" sx={{ mt: 3 }}>
+        Comparison needs two networks. Finish or open at least two analyses (saved analyses appear in "My analyses").
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Paper elevation={3} sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <CompareArrows color="primary" />
+          <Typography variant="h6">Compare networks</Typography>
+          {sides.map((side, index) => (
+            <TextField
+              key={index}
+              select
+              size="small"
+              label={index === 0 ? 'Left' : 'Right'}
+              value={side.key}
+              onChange={(e) => side.setKey(e.target.value)}
+              sx={{ minWidth: 240, flex: 1 }}
+            >
+              {options.map(option => (
+                <MenuItem key={option.key} value={option.key}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+          ))}
+          <Tooltip title={isZoomLinked ? 'Zoom and pan each graph on its own' : 'Zoom and pan both graphs together'} arrow>
+            <Button
+              size="small"
+              variant={isZoomLinked ? 'contained' : 'outlined'}
+              startIcon={<CenterFocusStrong />}
+              onClick={() => setIsZoomLinked(prev => !prev)}
+            >
+              Linked zoom
+            </Button>
+          </Tooltip>
+        </Box>
+      </Paper>
+
+      <Box
+        ref={containerRef}
+        sx={{ display: 'flex', flexDirection: isMobile ? 'column' : 'row', gap: 3 }}
+      >
+        {sides.map((side, index) => (
+          <Paper
+            key={index}
+            elevation={3}
+            sx={{
+              flex: 1,
+              height: GRAPH_HEIGHT,
+              background: '#000000',
+              border: '2px solid',
+              borderColor: SIDE_COLORS[index],
+              overflow: 'hidden',
+              position: 'relative'
+            }}
+          >
+            <Typography
+              variant="subtitle2"
+              sx={{ position: 'absolute', top: 8, left: 12, color: 'white', zIndex: 1, opacity: 0.85 }}
+            >
+              {side.option?.label}
+            </Typography>
+            {side.network && side.network.nodes.length > 0 ? (
+              <NetworkVisualization
+                key={side.key}
+                nodes={side.network.nodes}
+                links={side.network.links}
+                metrics={side.network.metrics}
+                highlightedCharacter={highlightedCharacter}
+                onCharacterClick={handleCharacterClick}
+                width={graphWidth - 4}
+                height={GRAPH_HEIGHT - 4}
+                snapshotTitle={side.option?.label}
+                zoomTransform={isZoomLinked ? zoom : null}
+                onZoomChange={isZoomLinked ? handleZoomChange : undefined}
+              />
+            ) : (
+              <Typography sx={{ color: 'white', opacity: 0.6, p: 4, textAlign: 'center' }}>
+                No characters to show for this analysis.
+              </Typography>
+            )}
+          </Paper>
+        ))}
+      </Box>
+
+      <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+        <Typography variant="subtitle1" fontWeight="600" gutterBottom>
+          Summary
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Measure</TableCell>
+              {sides.map((side, index) => (
+                <TableCell key={index} align="right" sx={{ color: SIDE_COLORS[index], fontWeight: 600 }}>
+                  {side.option?.label}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {SUMMARY_ROWS.map(row => (
+              <TableRow key={row.label}>
+                <TableCell>
+                  <Tooltip title={row.hint} arrow placement="right">
+                    <span>{row.label}</span>
+                  </Tooltip>
+                </TableCell>
+                {sides.map((side, index) => (
+                  <TableCell key={index} align="right">
+                    {side.network ? row.format(side.network.summary) : '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" fontWeight="600" sx={{ mt: 3, mb: 1 }}>
+          Degree distribution
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+          {sides.map((side, index) => side.network && (
+            <DegreeDistributionChart
+              key={index}
+              title={side.option?.label ?? ''}
+              histogram={side.network.summary.degreeHistogram}
+              maxDegree={maxDegree}
+              maxCount={maxCount}
+              color={SIDE_COLORS[index]}
+              width={isMobile ? 300 : 420}
+            />
+          ))}
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  List,
+  ListItem,
+  Pagination,
+  Divider
+} from '@mui/material';
+import { Close, FormatQuote } from '@mui/icons-material';
+import type { NetworkLink } from '../types';
+import { getEndpointName } from '../utils/network';
+
+const CONTEXTS_PER_PAGE = 5;
+
+const SOURCE_COLOR = '#667eea';
+const TARGET_COLOR = '#764ba2';
+
+interface ContextDrawerProps {
+  link: NetworkLink | null;
+  onClose: () => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Split a passage into plain and highlighted segments for both character names
+export const HighlightedContext: React.FC<{ text: string; source: string; target: string }> = ({
+  text,
+  source,
+  target
+}) => {
+  const names = [source, target].filter(name => name.trim().length > 0);
+  if (names.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${names.map(escapeRegExp).join('|')})`, 'gi');
+
+  return (
+    <>
+      {text.split(pattern).map((segment, index) => {
+        const lower = segment.toLowerCase();
+        if (lower === source.toLowerCase() || lower === target.toLowerCase()) {
+          const color = lower === source.toLowerCase() ? SOURCE_COLOR : TARGET_COLOR;
+          return (
+            <Box
+              key={index}
+              component="mark"
+              sx={{ bgcolor: `${color}22`, color, fontWeight: 700, px: 0.5, borderRadius: 1 }}
+            >
+              {segment}
+            </Box>
+          );
+        }
+        return <React.Fragment key={index}>{segment}</React.Fragment>;
+      })}
+    </>
+  );
+};
+
+export const ContextDrawer: React.FC<ContextDrawerProps> = ({ link, onClose }) => {
+  const [page, setPage] = useState(1);
+  const [activeLink, setActiveLink] = useState<NetworkLink | null>(link);
+
+  // Go back to the first page whenever a different link is opened
+  if (link !== activeLink) {
+    setActiveLink(link);
+    setPage(1);
+  }
+
+  const source = link ? getEndpointName(link.source) : '';
+  const target = link ? getEndpointName(link.target) : '';
+  const contexts = useMemo(() => link?.contexts ?? [], [link]);
+  const pageCount = Math.max(1, Math.ceil(contexts.length / CONTEXTS_PER_PAGE));
+  const pageContexts = contexts.slice((page - 1) * CONTEXTS_PER_PAGE, page * CONTEXTS_PER_PAGE);
+
+  return (
+    <Drawer
+      anchor="right"
+      open={!!link}
+      onClose={onClose}
+      PaperProps={{ sx: { width: { xs: '100%', sm: 440 }, borderRadius: 0 } }}
+    >
+      <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormatQuote color="primary" />
+            Interaction Contexts
+          </Typography>
+          <IconButton onClick={onClose} size="small" aria-label="Close contexts">
+            <Close />
+          </IconButton>
+        </Box>
+
+        {link && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+            <Chip label={source} size="small" sx={{ bgcolor: SOURCE_COLOR, color: 'white' }} />
+            <Typography variant="body2" color="text.secondary">↔</Typography>
+            <Chip label={target} size="small" sx={{ bgcolor: TARGET_COLOR, color: 'white' }} />
+            <Chip label={`Weight: ${link.weight}`} size="small" variant="outlined" />
+            <Chip label={`${contexts.length} passages`} size="small" variant="outlined" />
+          </Box>
+        )}
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Box sx={{ flex: 1, overflow: 'auto' }}>
+          {contexts.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', mt: 4 }}>
+              No context passages were recorded for this interaction.
+            </Typography>
+          ) : (
+            <List sx={{ p: 0 }}>
+              {pageContexts.map((context, index) => (
+                <ListItem
+                  key={`${page}-${index}`}
+                  sx={{
+                    mb: 2,
+                    p: 2,
+                    bgcolor: 'grey.50',
+                    borderRadius: 2,
+                    borderLeft: 4,
+                    borderLeftColor: 'primary.main',
+                    display: 'block'
+                  }}
+                >
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                    Passage {(page - 1) * CONTEXTS_PER_PAGE + index + 1}
+                  </Typography>
+                  <Typography variant="body2" sx={{ lineHeight: 1.7 }}>
+                    <HighlightedContext text={context} source={source} target={target} />
+                  </Typography>
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Box>
+
+        {pageCount > 1 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', pt: 2 }}>
+            <Pagination
+              count={pageCount}
+              page={page}
+              onChange={(_, value) => setPage(value)}
+              color="primary"
+              size="small"
+            />
+          </Box>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -9,35 +9,81 @@ import {
   Alert,
   Tooltip
 } from '@mui/material';
-import { PlayArrow, Wifi, WifiOff, Book, Warning } from '@mui/icons-material';
-import type { StreamingUpdate } from '../types';
+import { PlayArrow, Pause, Stop, Replay, Wifi, WifiOff, Book, Warning, Sync, SyncProblem, CloudDone } from '@mui/icons-material';
+import type { AnalysisResult, ConnectionStatus, NetworkLink, NetworkNode, SelectedBook, StreamingUpdate } from '../types';
+import { ExportMenu } from './ExportMenu';
 
 interface ControlPanelProps {
   isConnected: boolean;
+  connectionStatus?: ConnectionStatus;
+  missedUpdates?: number;
   isAnalyzing: boolean;
+  isPaused?: boolean;
+  isStalled?: boolean;
   currentUpdate: StreamingUpdate | null;
+  progressUpdate?: StreamingUpdate | null; // latest update carrying batch progress
   onStartAnalysis: () => void;
+  onCancel?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onRetry?: () => void;
   sessionId: string;
-  selectedBook?: { id: number; title: string } | null;
+  selectedBook?: SelectedBook | null;
+  savedAt?: number | null;
+  canRerun?: boolean; // false for an uploaded text that is no longer in memory
+  nodes?: NetworkNode[];
+  links?: NetworkLink[];
+  analysisResult?: AnalysisResult | null;
 }
 
+const CONNECTION_CHIPS: Record<ConnectionStatus, { label: string; color: 'default' | 'success' | 'warning' | 'info' | 'error'; icon: React.ReactElement }> = {
+  connecting: { label: 'Connecting', color: 'default', icon: <Sync /> },
+  connected: { label: 'Connected', color: 'success', icon: <Wifi /> },
+  reconnecting: { label: 'Reconnecting...', color: 'warning', icon: <Sync /> },
+  resumed: { label: 'Resumed', color: 'info', icon: <CloudDone /> },
+  gap: { label: 'Gap detected', color: 'warning', icon: <SyncProblem /> },
+  disconnected: { label: 'Disconnected', color: 'error', icon: <WifiOff /> }
+};
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   isConnected,
+  connectionStatus = isConnected ? 'connected' : 'disconnected',
+  missedUpdates = 0,
   isAnalyzing,
+  isPaused = false,
+  isStalled = false,
   currentUpdate,
+  progressUpdate = currentUpdate,
   onStartAnalysis,
+  onCancel,
+  onPause,
+  onResume,
+  onRetry,
   sessionId,
-  selectedBook
+  selectedBook,
+  savedAt,
+  canRerun = true,
+  nodes = [],
+  links = [],
+  analysisResult = null
 }) => {
   const getProgressValue = () => {
-    if (!currentUpdate || !currentUpdate.totalBatches || currentUpdate.batchIndex === undefined) return 0;
-    return ((currentUpdate.batchIndex + 1) / currentUpdate.totalBatches) * 100;
+    if (!progressUpdate || !progressUpdate.totalBatches || progressUpdate.batchIndex === undefined) return 0;
+    return ((progressUpdate.batchIndex + 1) / progressUpdate.totalBatches) * 100;
   };
 
   const getStatusMessage = () => {
     if (!selectedBook) return 'Please select a book above to begin analysis';
+    if (isImported) return '📂 Showing a network imported from file. Select a book above to run a live analysis.';
+    if (!canRerun && !isAnalyzing) return '📄 Showing a saved analysis of an uploaded text. Upload the file again to re-run it.';
+    if (savedAt && !isAnalyzing) return `📚 Showing saved analysis from ${new Date(savedAt).toLocaleString()}. Re-run to refresh it.`;
+    if (connectionStatus === 'reconnecting') return '🔌 Connection lost, reconnecting. The analysis keeps running on the server.';
     if (!isConnected) return 'Connecting to server...';
     if (!currentUpdate) return 'Ready to analyze selected book';
+    // Cancelled locally before the server confirmed, or the run was abandoned after a stall
+    if (!isAnalyzing && (currentUpdate.type === 'batch_complete' || currentUpdate.type === 'progress')) {
+      return '⏹️ Analysis stopped. Batches received so far are shown below.';
+    }
     
     switch (currentUpdate.type) {
       case 'progress':
@@ -48,25 +94,44 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         return '🎉 Analysis complete! Explore the character network above.';
       case 'error':
         return `❌ ${currentUpdate.message}`;
+      case 'cancelled':
+        return '⏹️ Analysis cancelled.';
+      case 'paused':
+        return `⏸️ Analysis paused${progressUpdate?.totalBatches ? ` after batch ${(progressUpdate.batchIndex || 0) + 1}/${progressUpdate.totalBatches}` : ''}.`;
+      case 'resumed':
+        return '▶️ Analysis resumed...';
       default:
         return 'Processing...';
     }
   };
 
-  const canStartAnalysis = isConnected && selectedBook && !isAnalyzing;
+  const isImported = selectedBook?.source === 'import';
+  const isUploaded = selectedBook?.source === 'upload';
+  const canStartAnalysis = isConnected && selectedBook && !isImported && canRerun && !isAnalyzing;
+  // Saved results have no streaming update, so fall back to the loaded result
+  const summaryData = currentUpdate?.data ?? analysisResult;
 
   return (
     <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
       <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
         <Typography variant="h6">Analysis Control</Typography>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-          <Chip
-            icon={isConnected ? <Wifi /> : <WifiOff />}
-            label={isConnected ? 'Connected' : 'Disconnected'}
-            color={isConnected ? 'success' : 'error'}
-            variant="outlined"
-            size="small"
-          />
+          <Tooltip
+            title={connectionStatus === 'gap'
+              ? `Requesting ${missedUpdates} missed update${missedUpdates === 1 ? '' : 's'} from the server`
+              : connectionStatus === 'resumed'
+                ? 'Rejoined the session and caught up on missed updates'
+                : ''}
+            arrow
+          >
+            <Chip
+              icon={CONNECTION_CHIPS[connectionStatus].icon}
+              label={CONNECTION_CHIPS[connectionStatus].label}
+              color={CONNECTION_CHIPS[connectionStatus].color}
+              variant="outlined"
+              size="small"
+            />
+          </Tooltip>
           <Typography variant="caption" color="text.secondary">
             Session: {sessionId.slice(-8)}
           </Typography>
@@ -78,20 +143,22 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <Box sx={{ mb: 2, p: 2, bgcolor: 'action.hover', borderRadius: 2 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
             <Book color="primary" fontSize="small" />
-            <Typography variant="body2" fontWeight="medium">Selected Book:</Typography>
+            <Typography variant="body2" fontWeight="medium">
+              {isImported ? 'Imported File:' : isUploaded ? 'Uploaded Text:' : 'Selected Book:'}
+            </Typography>
           </Box>
           <Typography variant="body1" sx={{ fontWeight: 600 }}>
             {selectedBook.title}
           </Typography>
           <Typography variant="caption" color="text.secondary">
-            Project Gutenberg ID: {selectedBook.id}
+            {isImported ? 'Loaded offline from file' : isUploaded ? 'Extracted from an uploaded file' : `Project Gutenberg ID: ${selectedBook.id}`}
           </Typography>
         </Box>
       )}
 
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
         <Tooltip 
-          title={!selectedBook ? "Please select a book first" : !isConnected ? "Not connected to server" : "Start analyzing the selected book"}
+          title={!selectedBook ? "Please select a book first" : isImported ? "Imported networks cannot be re-analyzed" : !canRerun ? "Upload the text again to re-analyze it" : !isConnected ? "Not connected to server" : "Start analyzing the selected book"}
           arrow
         >
           <span>
@@ -113,22 +180,43 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 }
               }}
             >
-              {isAnalyzing ? 'Analyzing...' : 'Start Analysis'}
+              {isAnalyzing ? 'Analyzing...' : savedAt ? 'Re-run Analysis' : 'Start Analysis'}
             </Button>
           </span>
         </Tooltip>
 
+        {/* Run controls while an analysis is in flight */}
+        {isAnalyzing && (onPause || onResume) && (
+          <Tooltip title={isPaused ? 'Resume the analysis' : 'Pause after the current batch'} arrow>
+            <Button
+              variant="outlined"
+              startIcon={isPaused ? <PlayArrow /> : <Pause />}
+              onClick={isPaused ? onResume : onPause}
+            >
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+          </Tooltip>
+        )}
+        {isAnalyzing && onCancel && (
+          <Tooltip title="Stop the analysis; batches received so far stay on screen" arrow>
+            <Button variant="outlined" color="error" startIcon={<Stop />} onClick={onCancel}>
+              Cancel
+            </Button>
+          </Tooltip>
+        )}
+
         <Box sx={{ flex: 1 }}>
           <Typography variant="body2" color="text.secondary" gutterBottom>
             {getStatusMessage()}
           </Typography>
-          {isAnalyzing && currentUpdate?.totalBatches && (
+          {isAnalyzing && progressUpdate?.totalBatches && (
             <LinearProgress 
               variant="determinate" 
               value={getProgressValue()} 
               sx={{ 
                 height: 8, 
                 borderRadius: 4,
+                opacity: isPaused ? 0.5 : 1,
                 backgroundColor: 'action.hover',
                 '& .MuiLinearProgress-bar': {
                   background: 'linear-gradient(45deg, #667eea 30%, #764ba2 90%)',
@@ -152,23 +240,53 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       )}
 
       {/* Results Summary */}
-      {currentUpdate?.data && (
-        <Box sx={{ display: 'flex', gap: 2 }}>
+      {summaryData && (
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
           <Chip 
-            label={`👥 ${currentUpdate.data.characters?.length || 0} characters`} 
+            label={`👥 ${summaryData.characters?.length || 0} characters`} 
             variant="outlined" 
             size="small"
             color="primary"
           />
           <Chip 
-            label={`🔗 ${currentUpdate.data.interactions?.length || 0} interactions`} 
+            label={`🔗 ${summaryData.interactions?.length || 0} interactions`} 
             variant="outlined" 
             size="small"
             color="secondary"
           />
+          <ExportMenu
+            nodes={nodes}
+            links={links}
+            analysisResult={analysisResult}
+            title={selectedBook?.title ?? 'character-network'}
+            isPartial={isAnalyzing}
+          />
         </Box>
       )}
 
+      {isStalled && (
+        <Alert
+          severity="error"
+          sx={{ mt: 2 }}
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {onCancel && (
+                <Button color="inherit" size="small" onClick={onCancel}>
+                  Cancel
+                </Button>
+              )}
+              {onRetry && (
+                <Button color="inherit" size="small" startIcon={<Replay />} onClick={onRetry}>
+                  Retry
+                </Button>
+              )}
+            </Box>
+          }
+        >
+          The analysis has stalled: no update has arrived from the server for a while.
+        </Alert>
+      )}
+
       {currentUpdate?.type === 'error' && (
         <Alert severity="error" sx={{ mt: 2 }}>
           {currentUpdate.message}
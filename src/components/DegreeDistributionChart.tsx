@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import * as d3 from 'd3';
+
+interface DegreeDistributionChartProps {
+  title: string;
+  histogram: number[]; // number of characters at each degree
+  maxDegree: number; // shared axis limits, so two charts can be read against each other
+  maxCount: number;
+  color: string;
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 8, right: 8, bottom: 28, left: 32 };
+
+export const DegreeDistributionChart: React.FC<DegreeDistributionChartProps> = ({
+  title,
+  histogram,
+  maxDegree,
+  maxCount,
+  color,
+  width = 320,
+  height = 160
+}) => {
+  const innerWidth = width - MARGIN.left - MARGIN.right;
+  const innerHeight = height - MARGIN.top - MARGIN.bottom;
+
+  const degrees = d3.range(maxDegree + 1);
+  const x = d3.scaleBand<number>().domain(degrees).range([0, innerWidth]).padding(0.15);
+  const y = d3.scaleLinear().domain([0, Math.max(1, maxCount)]).nice().range([innerHeight, 0]);
+  const xTicks = degrees.filter(degree => degree % Math.max(1, Math.ceil(degrees.length / 10)) === 0);
+
+  return (
+    <Box>
+      <Typography variant="caption" color="text.secondary" fontWeight="600">
+        {title}
+      </Typography>
+      <svg width={width} height={height} role="img" aria-label={`Degree distribution of ${title}`}>
+        <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+          {y.ticks(4).map(tick => (
+            <g key={tick} transform={`translate(0,${y(tick)})`}>
+              <line x2={innerWidth} stroke="#e0e0e0" />
+              <text x={-6} dy="0.32em" textAnchor="end" fontSize={10} fill="#666">{tick}</text>
+            </g>
+          ))}
+          {degrees.map(degree => {
+            const count = histogram[degree] ?? 0;
+            return count > 0 ? (
+              <rect
+                key={degree}
+                x={x(degree)}
+                y={y(count)}
+                width={x.bandwidth()}
+                height={innerHeight - y(count)}
+                fill={color}
+                rx={2}
+              >
+                <title>{`${count} character${count === 1 ? '' : 's'} with degree ${degree}`}</title>
+              </rect>
+            ) : null;
+          })}
+          {xTicks.map(degree => (
+            <text
+              key={degree}
+              x={(x(degree) ?? 0) + x.bandwidth() / 2}
+              y={innerHeight + 14}
+              textAnchor="middle"
+              fontSize={10}
+              fill="#666"
+            >
+              {degree}
+            </text>
+          ))}
+          <text x={innerWidth / 2} y={innerHeight + 26} textAnchor="middle" fontSize={10} fill="#999">
+            degree
+          </text>
+        </g>
+      </svg>
+    </Box>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem, ListItemIcon, ListItemText, Divider } from '@mui/material';
+import { FileDownload, AccountTree, Hub, TableChart, DataObject } from '@mui/icons-material';
+import type { AnalysisResult, NetworkLink, NetworkNode } from '../types';
+import {
+  toGraphML,
+  toGEXF,
+  toNodesCsv,
+  toEdgesCsv,
+  toAnalysisJson,
+  toFileBaseName,
+  downloadFile
+} from '../utils/exporters';
+
+// Browsers drop or block a second download started in the same tick as the first
+const SECOND_DOWNLOAD_DELAY_MS = 1000;
+
+interface ExportMenuProps {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  analysisResult: AnalysisResult | null;
+  title: string;
+  isPartial?: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  nodes,
+  links,
+  analysisResult,
+  title,
+  isPartial = false
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  // Partial results are exported as-is, but flagged in the file name
+  const baseName = `${toFileBaseName(title)}${isPartial ? '-partial' : ''}`;
+
+  const handleExport = (format: 'graphml' | 'gexf' | 'csv' | 'json') => {
+    setAnchorEl(null);
+
+    switch (format) {
+      case 'graphml':
+        downloadFile(toGraphML(nodes, links, title), `${baseName}.graphml`, 'application/xml');
+        break;
+      case 'gexf':
+        downloadFile(toGEXF(nodes, links, title), `${baseName}.gexf`, 'application/xml');
+        break;
+      case 'csv': {
+        downloadFile(toNodesCsv(nodes), `${baseName}-nodes.csv`, 'text/csv');
+        const edgesCsv = toEdgesCsv(links);
+        setTimeout(() => downloadFile(edgesCsv, `${baseName}-edges.csv`, 'text/csv'), SECOND_DOWNLOAD_DELAY_MS);
+        break;
+      }
+      case 'json':
+        if (analysisResult) {
+          downloadFile(toAnalysisJson(analysisResult), `${baseName}.json`, 'application/json');
+        }
+        break;
+    }
+
+    console.log(`📤 Exported "${title}" as ${format}`);
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<FileDownload />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={nodes.length === 0 && !analysisResult}
+      >
+        Export{isPartial ? ' (partial)' : ''}
+      </Button>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('graphml')} disabled={nodes.length === 0}>
+          <ListItemIcon><AccountTree fontSize="small" /></ListItemIcon>
+          <ListItemText primary="GraphML" secondary="Cytoscape, yEd, NetworkX" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('gexf')} disabled={nodes.length === 0}>
+          <ListItemIcon><Hub fontSize="small" /></ListItemIcon>
+          <ListItemText primary="GEXF" secondary="Gephi" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('csv')} disabled={nodes.length === 0}>
+          <ListItemIcon><TableChart fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Node & edge CSVs" secondary="pandas, spreadsheets" />
+        </MenuItem>
+        <Divider />
+        <MenuItem onClick={() => handleExport('json')} disabled={!analysisResult}>
+          <ListItemIcon><DataObject fontSize="small" /></ListItemIcon>
+          <ListItemText primary="AnalysisResult JSON" secondary="Raw, unfiltered result" />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
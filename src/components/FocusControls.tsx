@@ -0,0 +1,95 @@
+import React from 'react';
+import { Box, Typography, Button, ToggleButtonGroup, ToggleButton, IconButton, Tooltip } from '@mui/material';
+import { CenterFocusWeak, Close } from '@mui/icons-material';
+import type { FocusSettings } from '../types';
+
+interface FocusControlsProps {
+  focus: FocusSettings;
+  highlightedCharacter: string | null;
+  onChange: (changes: Partial<FocusSettings>) => void;
+}
+
+const HOP_OPTIONS = [1, 2, 3];
+
+const toggleSx = {
+  '& .MuiToggleButton-root': {
+    color: 'rgba(255,255,255,0.7)',
+    borderColor: 'rgba(255,255,255,0.25)',
+    py: 0.25,
+    px: 1,
+    fontSize: '0.75rem'
+  },
+  '& .MuiToggleButton-root.Mui-selected': { color: 'white', bgcolor: 'rgba(102, 126, 234, 0.5)' }
+};
+
+// Overlay at the bottom right of the graph for the ego-network focus mode
+export const FocusControls: React.FC<FocusControlsProps> = ({ focus, highlightedCharacter, onChange }) => {
+  if (!focus.character && !highlightedCharacter) return null;
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        bottom: 12,
+        right: 12,
+        zIndex: 2,
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 1,
+        p: 1,
+        borderRadius: 2,
+        color: 'white',
+        bgcolor: 'rgba(20, 20, 20, 0.75)',
+        backdropFilter: 'blur(4px)'
+      }}
+    >
+      {focus.character ? (
+        <>
+          <CenterFocusWeak fontSize="small" />
+          <Typography variant="body2" fontWeight="600" noWrap sx={{ maxWidth: 160 }}>
+            {focus.character}
+          </Typography>
+          <ToggleButtonGroup
+            value={focus.hops}
+            exclusive
+            size="small"
+            onChange={(_, hops) => hops && onChange({ hops })}
+            sx={toggleSx}
+          >
+            {HOP_OPTIONS.map(hops => (
+              <ToggleButton key={hops} value={hops}>{hops} hop{hops > 1 ? 's' : ''}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            value={focus.mode}
+            exclusive
+            size="small"
+            onChange={(_, mode) => mode && onChange({ mode })}
+            sx={toggleSx}
+          >
+            <ToggleButton value="hide">Hide others</ToggleButton>
+            <ToggleButton value="fade">Fade others</ToggleButton>
+          </ToggleButtonGroup>
+          <Tooltip title="Leave focus mode" arrow>
+            <IconButton size="small" onClick={() => onChange({ character: null })} sx={{ color: 'white' }}>
+              <Close fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="caption" sx={{ width: '100%', opacity: 0.7 }}>
+            Double-click a character to move the focus to it
+          </Typography>
+        </>
+      ) : (
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={<CenterFocusWeak />}
+          onClick={() => onChange({ character: highlightedCharacter })}
+        >
+          Focus on {highlightedCharacter}
+        </Button>
+      )}
+    </Box>
+  );
+};
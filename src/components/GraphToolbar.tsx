@@ -0,0 +1,137 @@
+import React from 'react';
+import { Box, TextField, MenuItem, Slider, Typography } from '@mui/material';
+import type { LayoutKind, LayoutSettings, NodeColoring, NodeSizing } from '../types';
+import { METRIC_KEYS, METRIC_LABELS } from '../utils/graphMetrics';
+import { LAYOUT_LABELS } from '../utils/layouts';
+
+interface GraphToolbarProps {
+  sizeBy: NodeSizing;
+  colorBy: NodeColoring;
+  onSizeByChange: (value: NodeSizing) => void;
+  onColorByChange: (value: NodeColoring) => void;
+  layout: LayoutSettings;
+  onLayoutChange: (changes: Partial<LayoutSettings>) => void;
+}
+
+// Light-on-dark inputs so the controls read well over the black graph canvas
+const darkSelectSx = {
+  minWidth: 150,
+  '& .MuiInputBase-root': { color: 'white', fontSize: '0.8rem', bgcolor: 'rgba(255,255,255,0.06)' },
+  '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.25)' },
+  '& .MuiSvgIcon-root': { color: 'rgba(255,255,255,0.7)' },
+};
+
+export const GraphToolbar: React.FC<GraphToolbarProps> = ({
+  sizeBy,
+  colorBy,
+  onSizeByChange,
+  onColorByChange,
+  layout,
+  onLayoutChange
+}) => {
+  // The one setting that matters for the current layout
+  const layoutSetting = (() => {
+    switch (layout.kind) {
+      case 'force':
+        return { label: 'Spacing', value: layout.spacing, min: 0.5, max: 2, step: 0.1, key: 'spacing' as const };
+      case 'radial':
+      case 'hierarchical':
+        return { label: 'Ring spacing', value: layout.ringSpacing, min: 80, max: 320, step: 10, key: 'ringSpacing' as const };
+      default:
+        return null;
+    }
+  })();
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        zIndex: 2,
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: 1,
+        p: 1,
+        borderRadius: 2,
+        bgcolor: 'rgba(20, 20, 20, 0.75)',
+        backdropFilter: 'blur(4px)'
+      }}
+    >
+      <TextField
+        select
+        size="small"
+        label="Size by"
+        value={sizeBy}
+        onChange={(e) => onSizeByChange(e.target.value as NodeSizing)}
+        sx={darkSelectSx}
+      >
+        <MenuItem value="mentions">Mentions</MenuItem>
+        {METRIC_KEYS.map(key => (
+          <MenuItem key={key} value={key}>{METRIC_LABELS[key].label}</MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        select
+        size="small"
+        label="Colour by"
+        value={colorBy}
+        onChange={(e) => onColorByChange(e.target.value as NodeColoring)}
+        sx={darkSelectSx}
+      >
+        <MenuItem value="character">Character</MenuItem>
+        <MenuItem value="community">Community</MenuItem>
+        {METRIC_KEYS.map(key => (
+          <MenuItem key={key} value={key}>{METRIC_LABELS[key].label}</MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        select
+        size="small"
+        label="Layout"
+        value={layout.kind}
+        onChange={(e) => onLayoutChange({ kind: e.target.value as LayoutKind })}
+        sx={darkSelectSx}
+      >
+        {(Object.keys(LAYOUT_LABELS) as LayoutKind[]).map(kind => (
+          <MenuItem key={kind} value={kind}>{LAYOUT_LABELS[kind]}</MenuItem>
+        ))}
+      </TextField>
+
+      {(layout.kind === 'circular' || layout.kind === 'arc') && (
+        <TextField
+          select
+          size="small"
+          label="Order by"
+          value={layout.order}
+          onChange={(e) => onLayoutChange({ order: e.target.value as LayoutSettings['order'] })}
+          sx={darkSelectSx}
+        >
+          <MenuItem value="community">Community</MenuItem>
+          <MenuItem value="mentions">Mentions</MenuItem>
+        </TextField>
+      )}
+
+      {layoutSetting && (
+        <Box sx={{ width: 140, px: 1, color: 'rgba(255,255,255,0.7)' }}>
+          <Typography variant="caption">{layoutSetting.label}</Typography>
+          {/* Uncontrolled while dragging; the graph only re-lays out on release */}
+          <Slider
+            key={layout.kind}
+            size="small"
+            defaultValue={layoutSetting.value}
+            min={layoutSetting.min}
+            max={layoutSetting.max}
+            step={layoutSetting.step}
+            onChangeCommitted={(_, value) => onLayoutChange({ [layoutSetting.key]: value as number })}
+            valueLabelDisplay="auto"
+            sx={{ py: 0.5 }}
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  List,
+  ListItem,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import { UploadFile, CloudUpload } from '@mui/icons-material';
+import type { AnalysisResult } from '../types';
+import { importFiles, type ImportOutcome } from '../utils/importers';
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImport: (result: AnalysisResult, label: string) => void;
+}
+
+const MAX_LISTED_ISSUES = 50;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ open, onClose, onImport }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [outcome, setOutcome] = useState<ImportOutcome | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const selected = Array.from(fileList ?? []);
+    if (selected.length === 0) return;
+
+    setFiles(selected);
+    setIsParsing(true);
+    setOutcome(await importFiles(selected));
+    setIsParsing(false);
+  };
+
+  const handleClose = () => {
+    setFiles([]);
+    setOutcome(null);
+    onClose();
+  };
+
+  const handleLoad = () => {
+    if (!outcome?.result) return;
+    onImport(outcome.result, files.map(file => file.name).join(' + '));
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <UploadFile color="primary" />
+        Import a Network
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            handleFiles(e.dataTransfer.files);
+          }}
+          sx={{
+            p: 4,
+            mb: 2,
+            textAlign: 'center',
+            cursor: 'pointer',
+            borderRadius: 2,
+            border: '2px dashed',
+            borderColor: isDragging ? 'primary.main' : 'divider',
+            bgcolor: isDragging ? 'action.hover' : 'grey.50',
+            transition: 'all 0.2s ease-in-out'
+          }}
+        >
+          <CloudUpload color="primary" sx={{ fontSize: 40, mb: 1 }} />
+          <Typography variant="body1" fontWeight="600">
+            Drop a file here or click to browse
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            AnalysisResult JSON, GraphML, GEXF, or a node CSV and an edge CSV together
+          </Typography>
+          <input
+            ref={inputRef}
+            type="file"
+            hidden
+            multiple
+            accept=".json,.graphml,.gexf,.csv"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </Box>
+
+        {files.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+            {files.map(file => (
+              <Chip key={file.name} label={file.name} size="small" variant="outlined" />
+            ))}
+            {outcome?.format && <Chip label={outcome.format.toUpperCase()} size="small" color="primary" />}
+          </Box>
+        )}
+
+        {isParsing && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2">Validating file...</Typography>
+          </Box>
+        )}
+
+        {!isParsing && outcome?.result && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Found {outcome.result.characters.length} characters and {outcome.result.interactions.length} interactions.
+          </Alert>
+        )}
+
+        {!isParsing && outcome && outcome.errors.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            <Typography variant="body2" fontWeight="600" gutterBottom>
+              {outcome.errors.length} problem{outcome.errors.length === 1 ? '' : 's'} found
+            </Typography>
+            <List dense sx={{ p: 0, maxHeight: 200, overflow: 'auto' }}>
+              {outcome.errors.slice(0, MAX_LISTED_ISSUES).map(error => (
+                <ListItem key={error} sx={{ p: 0, fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                  {error}
+                </ListItem>
+              ))}
+            </List>
+          </Alert>
+        )}
+
+        {!isParsing && outcome && outcome.warnings.length > 0 && (
+          <Alert severity="warning">
+            <List dense sx={{ p: 0, maxHeight: 160, overflow: 'auto' }}>
+              {outcome.warnings.slice(0, MAX_LISTED_ISSUES).map(warning => (
+                <ListItem key={warning} sx={{ p: 0, fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                  {warning}
+                </ListItem>
+              ))}
+            </List>
+          </Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} color="inherit">
+          Cancel
+        </Button>
+        <Button onClick={handleLoad} variant="contained" disabled={!outcome?.result || isParsing}>
+          Load Network
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
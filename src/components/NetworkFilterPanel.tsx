@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Slider,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Button
+} from '@mui/material';
+import { FilterList } from '@mui/icons-material';
+import type { NetworkFilters } from '../types';
+import { METRIC_KEYS, METRIC_LABELS } from '../utils/graphMetrics';
+import { DEFAULT_FILTERS } from '../utils/network';
+
+interface NetworkFilterPanelProps {
+  filters: NetworkFilters;
+  bounds: { characterCount: number; maxMentions: number; maxWeight: number };
+  shownCount: number;
+  onChange: (changes: Partial<NetworkFilters>) => void;
+  onReset: () => void;
+}
+
+const MIN_TOP_NODES = 3;
+
+export const NetworkFilterPanel: React.FC<NetworkFilterPanelProps> = ({
+  filters,
+  bounds,
+  shownCount,
+  onChange,
+  onReset
+}) => {
+  // Sliders stop at the largest value in the data, but never below the current setting
+  const mentionsMax = Math.max(bounds.maxMentions, filters.minMentions, 2);
+  const weightMax = Math.max(bounds.maxWeight, filters.minWeight, 2);
+  const nodesMax = Math.max(bounds.characterCount, MIN_TOP_NODES + 1);
+  const isDefault = (Object.keys(DEFAULT_FILTERS) as (keyof NetworkFilters)[]).every(key => filters[key] === DEFAULT_FILTERS[key]);
+
+  return (
+    <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <FilterList color="primary" />
+        <Typography variant="subtitle1" fontWeight="600">
+          Filters
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Showing {shownCount} of {bounds.characterCount} characters
+        </Typography>
+        <Button size="small" onClick={onReset} disabled={isDefault} sx={{ ml: 'auto' }}>
+          Reset filters
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, columnGap: 4, rowGap: 1 }}>
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Minimum mentions: {filters.minMentions}
+          </Typography>
+          <Slider
+            size="small"
+            value={filters.minMentions}
+            min={1}
+            max={mentionsMax}
+            onChange={(_, value) => onChange({ minMentions: value as number })}
+            valueLabelDisplay="auto"
+          />
+        </Box>
+
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Minimum interaction weight: {filters.minWeight}
+          </Typography>
+          <Slider
+            size="small"
+            value={filters.minWeight}
+            min={1}
+            max={weightMax}
+            onChange={(_, value) => onChange({ minWeight: value as number })}
+            valueLabelDisplay="auto"
+          />
+        </Box>
+
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Maximum characters: {filters.maxNodes ?? 'all'}
+          </Typography>
+          <Slider
+            size="small"
+            value={filters.maxNodes ?? nodesMax}
+            min={MIN_TOP_NODES}
+            max={nodesMax}
+            // Dragging all the way right removes the limit
+            onChange={(_, value) => onChange({ maxNodes: value === nodesMax ? null : value as number })}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => (value === nodesMax ? 'All' : value)}
+          />
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap', mt: 1 }}>
+        <TextField
+          select
+          size="small"
+          label="Top characters by"
+          value={filters.rankBy}
+          onChange={(e) => onChange({ rankBy: e.target.value as NetworkFilters['rankBy'] })}
+          disabled={filters.maxNodes === null}
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="mentions">Mentions</MenuItem>
+          {METRIC_KEYS.map(key => (
+            <MenuItem key={key} value={key}>{METRIC_LABELS[key].label}</MenuItem>
+          ))}
+        </TextField>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={filters.hideIsolated}
+              onChange={(e) => onChange({ hideIsolated: e.target.checked })}
+            />
+          }
+          label="Hide characters without interactions"
+        />
+      </Box>
+    </Paper>
+  );
+};
@@ -1,48 +1,159 @@
-import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import type { NetworkLink } from '../types';
-import type { NetworkNode } from '../types';
+import { IconButton, Tooltip } from '@mui/material';
+import { PhotoCamera } from '@mui/icons-material';
+import type {
+  AnalysisDiff,
+  ChangeKind,
+  LayoutSettings,
+  NetworkLink,
+  NetworkNode,
+  NodeColoring,
+  NodeMetrics,
+  NodeSizing,
+  ZoomState
+} from '../types';
+import { getCommunityColor } from '../utils/colors';
+import { METRIC_LABELS } from '../utils/graphMetrics';
+import { buildSnapshotSvg, svgToPngBlob, type SnapshotLegendEntry } from '../utils/snapshot';
+import { downloadFile, toFileBaseName } from '../utils/exporters';
+import { getEndpointName } from '../utils/network';
+import { DIFF_COLORS, getPairKey } from '../utils/diff';
+import { computeLayout, DEFAULT_LAYOUT, getLinkPath } from '../utils/layouts';
+import { SnapshotDialog, type SnapshotRequest } from './SnapshotDialog';
 
 interface NetworkVisualizationProps {
   nodes: NetworkNode[];
   links: NetworkLink[];
   highlightedCharacter: string | null;
   onCharacterClick: (character: string) => void;
+  onCharacterDoubleClick?: (character: string) => void;
+  onLinkClick?: (link: NetworkLink) => void;
   width: number;
   height: number;
+  metrics?: Record<string, NodeMetrics>;
+  sizeBy?: NodeSizing;
+  colorBy?: NodeColoring;
+  hiddenCommunities?: number[];
+  snapshotTitle?: string;
+  bookLabel?: string;
+  zoomTransform?: ZoomState | null; // zoom of a linked view to follow
+  onZoomChange?: (transform: ZoomState) => void; // called for zooms made by the user
+  diff?: AnalysisDiff | null; // marks added / removed / re-weighted characters and pairs
+  focusNeighbourhood?: Set<string> | null; // everything outside it is faded out
+  highlightedPath?: string[] | null; // characters of a path to trace, in order
+  layout?: LayoutSettings;
+  layoutCenter?: string | null; // centre of the radial layout and root of the hierarchy
 }
 
+const MAX_LEGEND_ENTRIES = 12;
+
+const NO_HIDDEN_COMMUNITIES: number[] = [];
+
+const DEFAULT_NODE_STROKE = 'rgba(255, 255, 255, 0.9)';
+const PATH_COLOR = '#00e5ff';
+const LAYOUT_TRANSITION_MS = 900;
+
+// Heavier links are drawn brighter
+const defaultLinkStroke = (d: NetworkLink) => {
+  const intensity = Math.min(1, d.weight / 15);
+  return d3.interpolateRgb("rgba(150, 150, 150, 0.3)", "rgba(255, 255, 255, 0.8)")(intensity);
+};
+
+const diffColor = (kind: ChangeKind | undefined) => (kind && kind !== 'unchanged' ? DIFF_COLORS[kind] : null);
+
+// Character names contain spaces and punctuation, which are not valid in SVG ids
+const gradientId = (nodeId: string) =>
+  `gradient-${nodeId.replace(/[^a-zA-Z0-9-]/g, c => `_${c.charCodeAt(0)}`)}`;
+
+// Pad each node into a ring of points so hulls wrap around circles rather than centres
+const hullPoints = (members: NetworkNode[], radius: (d: NetworkNode) => number): [number, number][] =>
+  members.flatMap(d => d3.range(8).map(step => {
+    const angle = (step / 8) * Math.PI * 2;
+    const r = radius(d) + 18;
+    return [d.x! + Math.cos(angle) * r, d.y! + Math.sin(angle) * r] as [number, number];
+  }));
+
 export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
   nodes,
   links,
   highlightedCharacter,
   onCharacterClick,
+  onCharacterDoubleClick,
+  onLinkClick,
   width,
-  height
+  height,
+  metrics,
+  sizeBy = 'mentions',
+  colorBy = 'character',
+  hiddenCommunities = NO_HIDDEN_COMMUNITIES,
+  snapshotTitle = 'Character Network',
+  bookLabel,
+  zoomTransform,
+  onZoomChange,
+  diff,
+  focusNeighbourhood,
+  highlightedPath,
+  layout = DEFAULT_LAYOUT,
+  layoutCenter = null
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const simulationRef = useRef<d3.Simulation<NetworkNode, NetworkLink> | null>(null);
   const previousNodesRef = useRef<NetworkNode[]>([]);
-
-  // Generate unique colors for each character using a large color palette
-  const generateUniqueColors = useMemo(() => {
-    const colors = [
-      '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57',
-      '#ff9ff3', '#54a0ff', '#5f27cd', '#00d2d3', '#ff9f43',
-      '#10ac84', '#ee5253', '#0abde3', '#3742fa', '#2ed573',
-      '#ff5722', '#9c27b0', '#673ab7', '#3f51b5', '#2196f3',
-      '#03a9f4', '#00bcd4', '#009688', '#4caf50', '#8bc34a',
-      '#cddc39', '#ffeb3b', '#ffc107', '#ff9800', '#ff5722',
-      '#795548', '#607d8b', '#e91e63', '#f44336', '#ff4081',
-      '#c51162', '#aa00ff', '#6200ea', '#3d5afe', '#2979ff',
-      '#00b0ff', '#00e5ff', '#1de9b6', '#00e676', '#76ff03',
-      '#c6ff00', '#ffea00', '#ffc400', '#ff9100', '#ff3d00'
-    ];
-    
-    return (nodeIndex: number) => {
-      return colors[nodeIndex % colors.length];
+  // Read by the tick handler so toggling communities does not restart the simulation
+  const hiddenCommunitiesRef = useRef(hiddenCommunities);
+  const drawHullsRef = useRef<() => void>(() => {});
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const onZoomChangeRef = useRef(onZoomChange);
+  // A followed or restored zoom takes precedence over auto-fit
+  const hasExternalZoomRef = useRef(false);
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+  // Last known position of every character, so new batches and timeline frames keep the layout
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+  // Read by the tick and drag handlers, which outlive the render that created them
+  const layoutRef = useRef(layout);
+  const appliedLayoutRef = useRef<LayoutSettings | null>(null);
+  const spacing = layout.spacing;
+
+  // Node radius, either from mentions (set in useNetworkData) or rescaled from a graph metric
+  const getRadius = useMemo(() => {
+    if (sizeBy === 'mentions' || !metrics) return (d: NetworkNode) => d.radius;
+
+    const values = nodes.map(node => metrics[node.id]?.[sizeBy] ?? 0);
+    const [min, max] = d3.extent(values) as [number, number];
+    if (min === undefined || min === max) return () => 40;
+
+    const scale = d3.scaleSqrt().domain([min, max]).range([25, 60]);
+    return (d: NetworkNode) => scale(metrics[d.id]?.[sizeBy] ?? 0);
+  }, [nodes, metrics, sizeBy]);
+
+  // Node colour: the character's own palette colour, its community, or a sequential scale over a graph metric
+  const getNodeColor = useMemo(() => {
+    if (colorBy === 'character' || !metrics) return (d: NetworkNode) => d.color;
+    if (colorBy === 'community') return (d: NetworkNode) => getCommunityColor(metrics[d.id]?.community ?? 0);
+
+    const values = nodes.map(node => metrics[node.id]?.[colorBy] ?? 0);
+    const [min, max] = d3.extent(values) as [number, number];
+    const scale = d3.scaleSequential(d3.interpolatePlasma).domain(min === max ? [0, max || 1] : [min, max]);
+    return (d: NetworkNode) => scale(metrics[d.id]?.[colorBy] ?? 0);
+  }, [nodes, metrics, colorBy]);
+
+  const showHulls = colorBy === 'community' && !!metrics;
+
+  // Node outlines and link strokes, recoloured by change type while diffing two runs
+  const diffStyle = useMemo(() => {
+    const nodeKinds = new Map(diff?.characters.map(change => [change.name, change.kind]) ?? []);
+    const linkKinds = new Map(diff?.interactions.map(change => [getPairKey(change.source, change.target), change.kind]) ?? []);
+    const linkKind = (d: NetworkLink) => linkKinds.get(getPairKey(getEndpointName(d.source), getEndpointName(d.target)));
+
+    return {
+      nodeStroke: (d: NetworkNode) => diffColor(nodeKinds.get(d.id)) ?? DEFAULT_NODE_STROKE,
+      nodeStrokeWidth: (d: NetworkNode) => (diffColor(nodeKinds.get(d.id)) ? 4 : 2.5),
+      nodeDash: (d: NetworkNode) => (nodeKinds.get(d.id) === 'removed' ? '6 4' : null),
+      linkStroke: (d: NetworkLink) => diffColor(linkKind(d)) ?? defaultLinkStroke(d),
+      linkDash: (d: NetworkLink) => (linkKind(d) === 'removed' ? '8 6' : null)
     };
-  }, []);
+  }, [diff]);
 
   // Smooth auto-fit function with improved calculations
   const autoFitGraph = useCallback((svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, immediate: boolean = false) => {
@@ -51,10 +162,12 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     const delay = immediate ? 100 : 1000;
     
     setTimeout(() => {
+      if (hasExternalZoomRef.current) return;
+
       // Calculate bounding box of all nodes with text consideration
       const nodePositions = nodes.map(node => {
         const textWidth = (node.name.length * 8) + 20; // Approximate text width
-        const effectiveRadius = Math.max(node.radius, textWidth / 2);
+        const effectiveRadius = Math.max(getRadius(node), textWidth / 2);
         return { 
           x: node.x || 0, 
           y: node.y || 0, 
@@ -82,8 +195,9 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
       const translateX = width / 2 - contentCenterX * scale;
       const translateY = height / 2 - contentCenterY * scale;
       
-      // Apply smooth transition
-      const zoom = d3.zoom<SVGSVGElement, unknown>();
+      // Apply smooth transition through the zoom behaviour that owns the view
+      const zoom = zoomRef.current;
+      if (!zoom) return;
       const duration = immediate ? 500 : 1500;
       
       svg.transition()
@@ -94,7 +208,7 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
           d3.zoomIdentity.translate(translateX, translateY).scale(scale)
         );
     }, delay);
-  }, [nodes, width, height]);
+  }, [nodes, width, height, getRadius]);
 
   useEffect(() => {
     if (!svgRef.current || nodes.length === 0) return;
@@ -117,21 +231,38 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
       g = svg.append("g").attr("class", "main-group");
     }
 
+    // Community hulls sit underneath links and nodes
+    let hullLayer = g.select<SVGGElement>('g.hulls');
+    if (hullLayer.empty()) {
+      hullLayer = g.insert("g", ":first-child").attr("class", "hulls");
+    }
+    if (!showHulls) {
+      hullLayer.selectAll("*").remove();
+    }
+
     // Enhanced zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 10])
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
+        // Only user gestures are shared, so following a linked view does not echo back
+        if (event.sourceEvent) {
+          const { x, y, k } = event.transform;
+          onZoomChangeRef.current?.({ x, y, k });
+        }
       });
 
     if (isFirstRender) {
       svg.call(zoom);
+      zoomRef.current = zoom;
     }
 
     // Create or update defs for gradients and filters
     let defs = svg.select<SVGDefsElement>('defs');
     if (defs.empty()) {
       defs = svg.append("defs");
+      // Beats the inline opacity set by the enter transitions
+      defs.append("style").text(".faded { opacity: 0.08 !important; transition: opacity 0.4s; }");
     }
 
     // Enhanced glow filter
@@ -154,19 +285,19 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     }
 
     // Create unique gradients for each character
-    nodes.forEach((node, index) => {
-      const gradientId = `gradient-${node.id}`;
-      let gradient = defs.select<SVGRadialGradientElement>(`#${gradientId}`);
+    nodes.forEach((node) => {
+      const id = gradientId(node.id);
+      let gradient = defs.select<SVGRadialGradientElement>(`#${id}`);
       
       if (gradient.empty()) {
         gradient = defs.append("radialGradient")
-          .attr("id", gradientId)
+          .attr("id", id)
           .attr("cx", "30%")
           .attr("cy", "30%")
           .attr("r", "70%");
       }
 
-      const baseColor = generateUniqueColors(index);
+      const baseColor = getNodeColor(node);
       
       gradient.selectAll("stop").remove();
       gradient.append("stop")
@@ -182,27 +313,54 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
         .attr("stop-color", d3.color(baseColor)!.darker(0.5).toString());
     });
 
+    // Seed nodes from their last known positions; newcomers start beside a placed neighbour
+    const nodeById = new Map(nodes.map(node => [node.id, node]));
+    let seededCount = 0;
+    nodes.forEach(node => {
+      const known = positionsRef.current.get(node.id);
+      if (node.x === undefined && known) {
+        node.x = known.x;
+        node.y = known.y;
+      }
+      if (node.x !== undefined) seededCount++;
+    });
+    links.forEach(link => {
+      const source = nodeById.get(getEndpointName(link.source));
+      const target = nodeById.get(getEndpointName(link.target));
+      if (!source || !target) return;
+      const [placed, unplaced] = source.x !== undefined ? [source, target] : [target, source];
+      if (placed.x !== undefined && unplaced.x === undefined) {
+        unplaced.x = placed.x + (Math.random() - 0.5) * 60;
+        unplaced.y = placed.y! + (Math.random() - 0.5) * 60;
+      }
+    });
+
     // Enhanced simulation with mobile-friendly forces
     const simulation = d3.forceSimulation<NetworkNode>(nodes)
     .force("link", d3.forceLink<NetworkNode, NetworkLink>(links)
       .id(d => d.id)
-      .distance(d => Math.max(isMobile ? 60 : 100, (isMobile ? 120 : 180) - d.weight * 6))
+      .distance(d => Math.max(isMobile ? 60 : 100, (isMobile ? 120 : 180) - d.weight * 6) * spacing)
       .strength(d => Math.min(0.9, d.weight / 15)))
     .force("charge", d3.forceManyBody<NetworkNode>()
-      .strength(() => isMobile ? -400 : -1000) // Less repulsion on mobile
+      .strength(() => (isMobile ? -400 : -1000) * spacing) // Less repulsion on mobile
       .distanceMin(isMobile ? 20 : 40)
       .distanceMax(isMobile ? 200 : 400))
     .force("center", d3.forceCenter(width / 2, height / 2))
     .force("collision", d3.forceCollide<NetworkNode>()
-      .radius(d => Math.max(d.radius + (isMobile ? 15 : 40), (d.name.length * (isMobile ? 2 : 4)) + (isMobile ? 15 : 30)))
+      .radius(d => Math.max(getRadius(d) + (isMobile ? 15 : 40), (d.name.length * (isMobile ? 2 : 4)) + (isMobile ? 15 : 30)))
       .strength(0.8))
     .force("x", d3.forceX(width / 2).strength(0.03))
     .force("y", d3.forceY(height / 2).strength(0.03));
 
+    // A mostly placed graph only needs a gentle settle rather than a full re-layout
+    if (seededCount > nodes.length / 2) {
+      simulation.alpha(0.3);
+    }
+
     simulationRef.current = simulation;
 
     // Enhanced links with better styling
-    const linkSelection = g.selectAll<SVGLineElement, NetworkLink>("line.link")
+    const linkSelection = g.selectAll<SVGPathElement, NetworkLink>("path.link")
       .data(links, (d: NetworkLink) => `${(d.source as NetworkNode).id || d.source}-${(d.target as NetworkNode).id || d.target}`);
 
     // Remove old links
@@ -214,18 +372,27 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
 
     // Add new links
     const linkEnter = linkSelection.enter()
-      .append("line")
+      .append("path")
       .attr("class", "link")
+      .attr("fill", "none")
       .attr("stroke-opacity", 0);
 
     // Update all links
-    linkEnter.merge(linkSelection)
+    const linkUpdate = linkEnter.merge(linkSelection);
+
+    // Clicking a link opens its context passages
+    linkUpdate
+      .style("cursor", onLinkClick ? "pointer" : "default")
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        onLinkClick?.(d);
+      });
+
+    linkUpdate
+      .attr("stroke-dasharray", diffStyle.linkDash)
       .transition()
       .duration(800)
-      .attr("stroke", d => {
-        const intensity = Math.min(1, d.weight / 15);
-        return d3.interpolateRgb("rgba(150, 150, 150, 0.3)", "rgba(255, 255, 255, 0.8)")(intensity);
-      })
+      .attr("stroke", diffStyle.linkStroke)
       .attr("stroke-width", d => Math.max(1.5, d.strokeWidth * 0.9))
       .attr("stroke-opacity", 0.7)
       .attr("stroke-linecap", "round")
@@ -254,14 +421,14 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     // Add glow circle for each new node
     nodeEnter.append("circle")
       .attr("class", "glow-circle")
-      .attr("fill", (_, i) => generateUniqueColors(i))
+      .attr("fill", d => getNodeColor(d))
       .attr("opacity", 0.2)
       .style("filter", "blur(3px)");
 
     // Add main circle for each new node
     nodeEnter.append("circle")
       .attr("class", "main-circle")
-      .attr("stroke", "rgba(255, 255, 255, 0.9)")
+      .attr("stroke", DEFAULT_NODE_STROKE)
       .attr("stroke-width", 2.5)
       .style("filter", "drop-shadow(0px 4px 12px rgba(0,0,0,0.6))");
 
@@ -294,15 +461,18 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     nodeUpdate.select<SVGCircleElement>(".glow-circle")
       .transition()
       .duration(600)
-      .attr("r", d => d.radius + 6)
-      .attr("fill", (_, i) => generateUniqueColors(i));
+      .attr("r", d => getRadius(d) + 6)
+      .attr("fill", d => getNodeColor(d));
 
     // Update main circles
     nodeUpdate.select<SVGCircleElement>(".main-circle")
+      .attr("stroke-dasharray", diffStyle.nodeDash)
       .transition()
       .duration(600)
-      .attr("r", d => d.radius)
-      .attr("fill", d => `url(#gradient-${d.id})`);
+      .attr("r", d => getRadius(d))
+      .attr("fill", d => `url(#${gradientId(d.id)})`)
+      .attr("stroke", diffStyle.nodeStroke)
+      .attr("stroke-width", diffStyle.nodeStrokeWidth);
 
     // Update text - ALWAYS show full character name
     nodeUpdate.select<SVGTextElement>(".node-text")
@@ -310,7 +480,7 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
       .duration(600)
       .attr("font-size", d => {
         // Calculate font size based on both radius and name length
-        const baseSize = Math.max(9, Math.min(16, d.radius / 4));
+        const baseSize = Math.max(9, Math.min(16, getRadius(d) / 4));
         const lengthAdjustment = Math.max(0.7, 1 - (d.name.length / 30));
         return Math.max(8, baseSize * lengthAdjustment);
       })
@@ -318,31 +488,39 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
 
     // Update tooltips
     nodeUpdate.select<SVGTitleElement>("title")
-      .text(d => `${d.name}\n📊 Mentions: ${d.mentions}\n⭐ Importance: ${d.importance}/5`);
+      .text(d => `${d.name}\n📊 Mentions: ${d.mentions}\n⭐ Importance: ${d.importance}/5\nClick again for details`);
 
     // Enhanced interactions
     nodeUpdate
-      .on("click", (_, d) => {
+      .on("click", (event, d) => {
+        // The second click of a double-click belongs to the dblclick handler
+        if (event.detail > 1) return;
         onCharacterClick(d.name);
       })
+      .on("dblclick", (event, d) => {
+        if (!onCharacterDoubleClick) return;
+        // Keep the zoom behaviour from zooming in as well
+        event.stopPropagation();
+        onCharacterDoubleClick(d.name);
+      })
       .on("mouseover", function(_, d) {
         const node = d3.select(this);
         
         node.select<SVGCircleElement>(".main-circle")
           .transition()
           .duration(200)
-          .attr("r", d.radius * 1.2)
+          .attr("r", getRadius(d) * 1.2)
           .attr("stroke-width", 4)
           .style("filter", "drop-shadow(0px 6px 20px rgba(255,255,255,0.3)) url(#glow)");
         
         node.select<SVGCircleElement>(".glow-circle")
           .transition()
           .duration(200)
-          .attr("r", (d.radius + 6) * 1.2)
+          .attr("r", (getRadius(d) + 6) * 1.2)
           .attr("opacity", 0.4);
 
         // Highlight connected links
-        g.selectAll<SVGLineElement, NetworkLink>("line.link")
+        g.selectAll<SVGPathElement, NetworkLink>("path.link")
           .filter((l: NetworkLink) => (l.source as NetworkNode).id === d.id || (l.target as NetworkNode).id === d.id)
           .transition()
           .duration(200)
@@ -360,8 +538,8 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
         .attr("font-size", d => {
           // Mobile-friendly font sizing
           const baseSize = isMobile 
-            ? Math.max(6, Math.min(10, d.radius / 5))
-            : Math.max(9, Math.min(16, d.radius / 4));
+            ? Math.max(6, Math.min(10, getRadius(d) / 5))
+            : Math.max(9, Math.min(16, getRadius(d) / 4));
           const lengthAdjustment = Math.max(0.7, 1 - (d.name.length / (isMobile ? 20 : 30)));
           return Math.max(isMobile ? 6 : 8, baseSize * lengthAdjustment);
         })
@@ -376,48 +554,79 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
         node.select<SVGCircleElement>(".main-circle")
           .transition()
           .duration(200)
-          .attr("r", d.radius)
-          .attr("stroke-width", 2.5)
+          .attr("r", getRadius(d))
+          .attr("stroke-width", diffStyle.nodeStrokeWidth(d))
           .style("filter", "drop-shadow(0px 4px 12px rgba(0,0,0,0.6))");
         
         node.select<SVGCircleElement>(".glow-circle")
           .transition()
           .duration(200)
-          .attr("r", d.radius + 6)
+          .attr("r", getRadius(d) + 6)
           .attr("opacity", 0.2);
 
         // Reset link highlighting
-        g.selectAll<SVGLineElement, NetworkLink>("line.link")
+        g.selectAll<SVGPathElement, NetworkLink>("path.link")
           .transition()
           .duration(200)
           .attr("stroke-opacity", 0.7)
           .attr("stroke-width", (l: NetworkLink) => Math.max(1.5, l.strokeWidth * 0.9))
-          .attr("stroke", (l: NetworkLink) => {
-            const intensity = Math.min(1, l.weight / 15);
-            return d3.interpolateRgb("rgba(150, 150, 150, 0.3)", "rgba(255, 255, 255, 0.8)")(intensity);
-          });
+          .attr("stroke", diffStyle.linkStroke);
       })
       .call(d3.drag<SVGGElement, NetworkNode>()
         .on("start", dragstarted)
         .on("drag", dragged)
         .on("end", dragended));
 
+    const drawHulls = () => {
+      if (!showHulls || !metrics) return;
+
+      const hidden = new Set(hiddenCommunitiesRef.current);
+      const groups = d3.groups(
+        nodes.filter(d => d.x !== undefined && !hidden.has(metrics[d.id]?.community ?? 0)),
+        d => metrics[d.id]?.community ?? 0
+      ).filter(([, members]) => members.length > 1);
+
+      const hullLine = d3.line().curve(d3.curveCatmullRomClosed.alpha(0.5));
+
+      hullLayer.selectAll<SVGPathElement, [number, NetworkNode[]]>("path.hull")
+        .data(groups, d => d[0])
+        .join("path")
+        .attr("class", "hull")
+        .attr("fill", ([community]) => getCommunityColor(community))
+        .attr("fill-opacity", 0.12)
+        .attr("stroke", ([community]) => getCommunityColor(community))
+        .attr("stroke-opacity", 0.35)
+        .attr("stroke-width", 1.5)
+        .attr("stroke-linejoin", "round")
+        .style("pointer-events", "none")
+        .attr("d", ([, members]) => {
+          const hull = d3.polygonHull(hullPoints(members, getRadius));
+          return hull ? hullLine(hull) : null;
+        });
+    };
+
+    drawHullsRef.current = drawHulls;
+
     // Enhanced simulation tick function
     simulation.on("tick", () => {
-      g.selectAll<SVGLineElement, NetworkLink>("line.link")
-        .attr("x1", (d: NetworkLink) => (d.source as NetworkNode).x!)
-        .attr("y1", (d: NetworkLink) => (d.source as NetworkNode).y!)
-        .attr("x2", (d: NetworkLink) => (d.target as NetworkNode).x!)
-        .attr("y2", (d: NetworkLink) => (d.target as NetworkNode).y!);
+      const isForceLayout = layoutRef.current.kind === 'force';
 
       g.selectAll<SVGGElement, NetworkNode>("g.node")
         .attr("transform", (d: NetworkNode) => {
-          // Enhanced boundary constraints
-          const margin = Math.max(d.radius + 30, (d.name.length * 3) + 20);
-          d.x = Math.max(margin, Math.min(width - margin, d.x!));
-          d.y = Math.max(margin, Math.min(height - margin, d.y!));
+          // Enhanced boundary constraints; fixed layouts may be larger than the view and rely on auto-fit
+          if (isForceLayout) {
+            const margin = Math.max(getRadius(d) + 30, (d.name.length * 3) + 20);
+            d.x = Math.max(margin, Math.min(width - margin, d.x!));
+            d.y = Math.max(margin, Math.min(height - margin, d.y!));
+          }
+          positionsRef.current.set(d.id, { x: d.x!, y: d.y! });
           return `translate(${d.x},${d.y})`;
         });
+
+      g.selectAll<SVGPathElement, NetworkLink>("path.link")
+        .attr("d", d => getLinkPath(layoutRef.current.kind, d));
+
+      drawHulls();
     });
 
     // Auto-fit after updates with smooth animation
@@ -436,6 +645,8 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
 
     function dragended(event: d3.D3DragEvent<SVGGElement, NetworkNode, NetworkNode>, d: NetworkNode) {
       if (!event.active) simulation.alphaTarget(0);
+      // Fixed layouts keep a dragged character where it was dropped
+      if (layoutRef.current.kind !== 'force') return;
       d.fx = undefined;
       d.fy = undefined;
     }
@@ -446,7 +657,101 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     return () => {
       simulation.stop();
     };
-  }, [nodes, links, width, height, onCharacterClick, autoFitGraph, generateUniqueColors]);
+  }, [nodes, links, width, height, onCharacterClick, onCharacterDoubleClick, onLinkClick, autoFitGraph, getRadius, getNodeColor, showHulls, metrics, diffStyle, spacing]);
+
+  // Move characters to the selected layout, animating from where they are now
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!svgRef.current || !simulation || nodes.length === 0) return;
+
+    layoutRef.current = layout;
+    const isLayoutChange = appliedLayoutRef.current !== null && appliedLayoutRef.current !== layout;
+    appliedLayoutRef.current = layout;
+
+    const targets = computeLayout(nodes, links, layout, { width, height, center: layoutCenter, metrics });
+    if (!targets) {
+      // Back to the force layout: hand the characters over to the simulation again
+      if (nodes.some(node => node.fx != null)) {
+        nodes.forEach(node => {
+          node.fx = undefined;
+          node.fy = undefined;
+        });
+        simulation.alpha(0.6).restart();
+      }
+      if (isLayoutChange) autoFitGraph(d3.select(svgRef.current));
+      return;
+    }
+
+    const starts = new Map(nodes.map(node => [node.id, { x: node.x ?? width / 2, y: node.y ?? height / 2 }]));
+    // Every character is pinned, so the running simulation only redraws them
+    simulation.alpha(1).restart();
+    const timer = d3.timer(elapsed => {
+      const t = d3.easeCubicInOut(Math.min(1, elapsed / LAYOUT_TRANSITION_MS));
+      nodes.forEach(node => {
+        const start = starts.get(node.id)!;
+        const target = targets.get(node.id) ?? start;
+        node.fx = start.x + (target.x - start.x) * t;
+        node.fy = start.y + (target.y - start.y) * t;
+      });
+      if (t === 1) timer.stop();
+    });
+    autoFitGraph(d3.select(svgRef.current));
+
+    return () => timer.stop();
+  }, [nodes, links, layout, layoutCenter, width, height, metrics, autoFitGraph]);
+
+  // Hide the nodes and links of communities toggled off in the legend
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const hidden = new Set(colorBy === 'community' && metrics ? hiddenCommunities : []);
+    const isHidden = (node: string | NetworkNode) => {
+      const id = typeof node === 'string' ? node : node.id;
+      return hidden.has(metrics?.[id]?.community ?? -1);
+    };
+
+    svg.selectAll<SVGGElement, NetworkNode>('g.node')
+      .style('display', d => (isHidden(d) ? 'none' : null));
+
+    svg.selectAll<SVGPathElement, NetworkLink>('path.link')
+      .style('display', d => (isHidden(d.source) || isHidden(d.target) ? 'none' : null));
+
+    hiddenCommunitiesRef.current = hiddenCommunities;
+    drawHullsRef.current();
+  }, [nodes, links, colorBy, metrics, hiddenCommunities]);
+
+  // Focus mode: fade everything outside the focused neighbourhood
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const isFaded = (name: string) => !!focusNeighbourhood && !focusNeighbourhood.has(name);
+
+    svg.selectAll<SVGGElement, NetworkNode>('g.node')
+      .classed('faded', d => isFaded(d.id));
+
+    svg.selectAll<SVGPathElement, NetworkLink>('path.link')
+      .classed('faded', d => isFaded(getEndpointName(d.source)) || isFaded(getEndpointName(d.target)));
+  }, [nodes, links, focusNeighbourhood]);
+
+  useEffect(() => {
+    onZoomChangeRef.current = onZoomChange;
+  }, [onZoomChange]);
+
+  // Follow the zoom of a linked view (comparison mode)
+  useEffect(() => {
+    hasExternalZoomRef.current = !!zoomTransform;
+    if (!svgRef.current || !zoomRef.current || !zoomTransform) return;
+
+    const current = d3.zoomTransform(svgRef.current);
+    if (current.x === zoomTransform.x && current.y === zoomTransform.y && current.k === zoomTransform.k) return;
+
+    d3.select(svgRef.current).call(
+      zoomRef.current.transform,
+      d3.zoomIdentity.translate(zoomTransform.x, zoomTransform.y).scale(zoomTransform.k)
+    );
+  }, [zoomTransform]);
 
   // Enhanced highlighting effects
   useEffect(() => {
@@ -455,17 +760,19 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
     const svg = d3.select(svgRef.current);
     
     // Reset all styling
-    svg.selectAll<SVGCircleElement, unknown>('.main-circle')
+    svg.selectAll<SVGCircleElement, NetworkNode>('.main-circle')
       .transition()
       .duration(300)
-      .attr('stroke', 'rgba(255, 255, 255, 0.9)')
-      .attr('stroke-width', 2.5)
+      .attr('stroke', diffStyle.nodeStroke)
+      .attr('stroke-width', diffStyle.nodeStrokeWidth)
       .style('filter', 'drop-shadow(0px 4px 12px rgba(0,0,0,0.6))');
     
-    svg.selectAll<SVGLineElement, unknown>('line.link')
+    svg.selectAll<SVGPathElement, NetworkLink>('path.link')
       .transition()
       .duration(300)
-      .attr('stroke-opacity', 0.7);
+      .attr('stroke-opacity', 0.7)
+      .attr('stroke', diffStyle.linkStroke)
+      .attr('stroke-width', d => Math.max(1.5, d.strokeWidth * 0.9));
 
     if (highlightedCharacter) {
       // Highlight selected character with vibrant effects
@@ -479,7 +786,7 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
         .style('filter', 'drop-shadow(0px 8px 24px rgba(255, 71, 87, 0.8)) url(#glow)');
 
       // Highlight connected links
-      svg.selectAll<SVGLineElement, NetworkLink>('line.link')
+      svg.selectAll<SVGPathElement, NetworkLink>('path.link')
         .filter((d: NetworkLink) => 
           (d.source as NetworkNode).name === highlightedCharacter || (d.target as NetworkNode).name === highlightedCharacter)
         .transition()
@@ -507,25 +814,124 @@ export const NetworkVisualization: React.FC<NetworkVisualizationProps> = ({
         .attr('stroke-width', 4)
         .style('filter', 'drop-shadow(0px 6px 16px rgba(255, 165, 2, 0.6)) url(#glow)');
     }
-  }, [highlightedCharacter, links]);
+
+    if (highlightedPath && highlightedPath.length > 1) {
+      // Trace a path found by the path finder on top of any highlight
+      const pathCharacters = new Set(highlightedPath);
+      const pathPairs = new Set(highlightedPath.slice(1).map((name, index) => getPairKey(highlightedPath[index], name)));
+
+      svg.selectAll<SVGGElement, NetworkNode>('g.node')
+        .filter(d => pathCharacters.has(d.name))
+        .select<SVGCircleElement>('.main-circle')
+        .transition()
+        .duration(300)
+        .attr('stroke', PATH_COLOR)
+        .attr('stroke-width', 5)
+        .style('filter', 'drop-shadow(0px 6px 16px rgba(0, 229, 255, 0.6)) url(#glow)');
+
+      svg.selectAll<SVGPathElement, NetworkLink>('path.link')
+        .filter(d => pathPairs.has(getPairKey(getEndpointName(d.source), getEndpointName(d.target))))
+        .transition()
+        .duration(300)
+        .attr('stroke-opacity', 1)
+        .attr('stroke', PATH_COLOR)
+        .attr('stroke-width', d => Math.max(4, d.strokeWidth * 2));
+    }
+  }, [highlightedCharacter, highlightedPath, links, diffStyle]);
+
+  // Legend entries matching the current colour encoding
+  const buildLegend = (): SnapshotLegendEntry[] => {
+    const byMentions = [...nodes].sort((a, b) => b.mentions - a.mentions);
+
+    if (colorBy === 'community' && metrics) {
+      const groups = d3.groups(byMentions, d => metrics[d.id]?.community ?? 0)
+        .filter(([community]) => !hiddenCommunities.includes(community))
+        .sort(([a], [b]) => a - b);
+      return groups.slice(0, MAX_LEGEND_ENTRIES).map(([community, members]) => ({
+        label: `${members.slice(0, 2).map(d => d.name).join(', ')}${members.length > 2 ? ` +${members.length - 2}` : ''}`,
+        color: getCommunityColor(community)
+      }));
+    }
+
+    const metricKey = colorBy !== 'character' && colorBy !== 'community' ? colorBy : null;
+    if (metricKey && metrics) {
+      const sorted = [...nodes].sort((a, b) => (metrics[a.id]?.[metricKey] ?? 0) - (metrics[b.id]?.[metricKey] ?? 0));
+      const stops = sorted.length > 1 ? [sorted[0], sorted[Math.floor(sorted.length / 2)], sorted[sorted.length - 1]] : sorted;
+      return stops.map(d => ({
+        label: `${METRIC_LABELS[metricKey].label}: ${(metrics[d.id]?.[metricKey] ?? 0).toFixed(2)}`,
+        color: getNodeColor(d)
+      }));
+    }
+
+    return byMentions.slice(0, MAX_LEGEND_ENTRIES).map(d => ({ label: d.name, color: getNodeColor(d) }));
+  };
+
+  const handleSnapshot = async (request: SnapshotRequest) => {
+    if (!svgRef.current) return;
+
+    const { markup, width: snapshotWidth, height: snapshotHeight } = buildSnapshotSvg(svgRef.current, width, height, {
+      background: request.background,
+      title: request.title ?? undefined,
+      subtitle: request.includeBookId ? bookLabel : undefined,
+      legend: request.includeLegend ? buildLegend() : undefined
+    });
+
+    const baseName = toFileBaseName(request.title || snapshotTitle);
+    if (request.format === 'svg') {
+      downloadFile(markup, `${baseName}.svg`, 'image/svg+xml');
+    } else {
+      const blob = await svgToPngBlob(markup, snapshotWidth, snapshotHeight, request.pixelRatio);
+      downloadFile(blob, `${baseName}@${request.pixelRatio}x.png`, 'image/png');
+    }
+    console.log(`📸 Saved ${request.format.toUpperCase()} snapshot`);
+  };
 
   return (
-    <svg
-      ref={svgRef}
-      width="100%"
-      height="100%"
-      viewBox={`0 0 ${width} ${height}`}
-      preserveAspectRatio="xMidYMid meet"
-      style={{ 
-        background: '#000000',
-        borderRadius: '12px',
-        cursor: 'grab',
-        overflow: 'visible',
-        border: '1px solid #333',
-        maxWidth: '100%',
-        maxHeight: '100%',
-        touchAction: 'pan-x pan-y' // Enable touch gestures on mobile
-      }}
-    />
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <Tooltip title="Save snapshot (PNG/SVG)" arrow>
+        <IconButton
+          onClick={() => setIsSnapshotOpen(true)}
+          size="small"
+          sx={{
+            position: 'absolute',
+            top: 8,
+            right: 8,
+            zIndex: 2,
+            color: 'white',
+            bgcolor: 'rgba(20, 20, 20, 0.75)',
+            '&:hover': { bgcolor: 'rgba(60, 60, 60, 0.9)' }
+          }}
+        >
+          <PhotoCamera fontSize="small" />
+        </IconButton>
+      </Tooltip>
+
+      <SnapshotDialog
+        key={snapshotTitle}
+        open={isSnapshotOpen}
+        onClose={() => setIsSnapshotOpen(false)}
+        onSave={handleSnapshot}
+        defaultTitle={snapshotTitle}
+        bookLabel={bookLabel}
+      />
+
+      <svg
+        ref={svgRef}
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="xMidYMid meet"
+        style={{ 
+          background: '#000000',
+          borderRadius: '12px',
+          cursor: 'grab',
+          overflow: 'visible',
+          border: '1px solid #333',
+          maxWidth: '100%',
+          maxHeight: '100%',
+          touchAction: 'pan-x pan-y' // Enable touch gestures on mobile
+        }}
+      />
+    </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,168 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Autocomplete,
+  TextField,
+  ToggleButtonGroup,
+  ToggleButton,
+  IconButton,
+  Tooltip,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText
+} from '@mui/material';
+import { SwapVert, ArrowDownward } from '@mui/icons-material';
+import type { NetworkLink, PathMode } from '../types';
+import { findPaths } from '../utils/paths';
+
+interface PathFinderProps {
+  characters: string[];
+  links: NetworkLink[];
+  onPathChange: (path: string[] | null) => void;
+  onCharacterClick: (character: string) => void;
+}
+
+export const PathFinder: React.FC<PathFinderProps> = ({ characters, links, onPathChange, onCharacterClick }) => {
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+  const [mode, setMode] = useState<PathMode>('shortest');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const paths = useMemo(
+    () => (from && to ? findPaths(links, from, to, mode) : []),
+    [links, from, to, mode]
+  );
+  const selected = paths[Math.min(selectedIndex, paths.length - 1)] ?? null;
+
+  // The chosen path is drawn on the graph until the finder is closed
+  useEffect(() => {
+    onPathChange(selected?.characters ?? null);
+  }, [selected, onPathChange]);
+
+  useEffect(() => () => onPathChange(null), [onPathChange]);
+
+  const pickFrom = (value: string | null) => {
+    setFrom(value);
+    setSelectedIndex(0);
+  };
+
+  const pickTo = (value: string | null) => {
+    setTo(value);
+    setSelectedIndex(0);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Autocomplete
+            size="small"
+            options={characters}
+            value={from}
+            onChange={(_, value) => pickFrom(value)}
+            renderInput={(params) => <TextField {...params} label="From" />}
+          />
+          <Autocomplete
+            size="small"
+            options={characters}
+            value={to}
+            onChange={(_, value) => pickTo(value)}
+            renderInput={(params) => <TextField {...params} label="To" />}
+          />
+        </Box>
+        <Tooltip title="Swap" arrow>
+          <IconButton
+            size="small"
+            onClick={() => {
+              setFrom(to);
+              setTo(from);
+              setSelectedIndex(0);
+            }}
+          >
+            <SwapVert fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <ToggleButtonGroup
+        value={mode}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(_, value) => {
+          if (!value) return;
+          setMode(value);
+          setSelectedIndex(0);
+        }}
+        sx={{ my: 2 }}
+      >
+        <ToggleButton value="shortest">Fewest hops</ToggleButton>
+        <ToggleButton value="strongest">Strongest ties</ToggleButton>
+      </ToggleButtonGroup>
+
+      {from && to && from !== to && !selected && (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', mt: 2 }}>
+          {from} and {to} are not connected in the current network.
+        </Typography>
+      )}
+
+      {selected && (
+        <>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            {selected.hops.length} hop{selected.hops.length === 1 ? '' : 's'} • total weight {selected.totalWeight}
+          </Typography>
+          {selected.hops.map((hop, index) => (
+            <Box key={`${hop.source}-${hop.target}`}>
+              {index === 0 && (
+                <Chip label={hop.source} size="small" color="primary" onClick={() => onCharacterClick(hop.source)} />
+              )}
+              <Box sx={{ display: 'flex', gap: 1, pl: 1.5, my: 0.5, borderLeft: 2, borderColor: 'primary.light' }}>
+                <ArrowDownward fontSize="small" color="action" />
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="caption" fontWeight="600">
+                    Weight {hop.weight}
+                  </Typography>
+                  {hop.context && (
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', overflow: 'hidden', fontStyle: 'italic' }}
+                    >
+                      “{hop.context}”
+                    </Typography>
+                  )}
+                </Box>
+              </Box>
+              <Chip label={hop.target} size="small" color="primary" onClick={() => onCharacterClick(hop.target)} />
+            </Box>
+          ))}
+        </>
+      )}
+
+      {paths.length > 1 && (
+        <>
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            Alternatives
+          </Typography>
+          <List dense sx={{ p: 0 }}>
+            {paths.map((path, index) => (
+              <ListItemButton
+                key={path.characters.join('\u0000')}
+                selected={path === selected}
+                onClick={() => setSelectedIndex(index)}
+                sx={{ borderRadius: 1 }}
+              >
+                <ListItemText
+                  primary={path.characters.join(' → ')}
+                  secondary={`${path.hops.length} hops • total weight ${path.totalWeight}`}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Paper, Box, Typography, TextField, MenuItem, Chip, Button } from '@mui/material';
+import { Difference } from '@mui/icons-material';
+import type { AnalysisDiff, AnalysisRun, ChangeKind } from '../types';
+import { DIFF_COLORS } from '../utils/diff';
+
+interface RunDiffBarProps {
+  runs: AnalysisRun[];
+  currentSavedAt: number | null; // the run that is open, if it was saved
+  selectedRunId: number | null;
+  diff: AnalysisDiff | null;
+  onSelectRun: (run: AnalysisRun | null) => void;
+}
+
+const COUNTED_KINDS: { kind: Exclude<ChangeKind, 'unchanged'>; label: string }[] = [
+  { kind: 'added', label: 'added' },
+  { kind: 'removed', label: 'removed' },
+  { kind: 'changed', label: 're-weighted' }
+];
+
+export const RunDiffBar: React.FC<RunDiffBarProps> = ({ runs, currentSavedAt, selectedRunId, diff, onSelectRun }) => {
+  const countKind = (kind: ChangeKind) =>
+    (diff?.characters.filter(change => change.kind === kind).length ?? 0) +
+    (diff?.interactions.filter(change => change.kind === kind).length ?? 0);
+
+  return (
+    <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Difference color="primary" />
+        <Typography variant="subtitle1" fontWeight="600">
+          Compare with an earlier run
+        </Typography>
+        <TextField
+          select
+          size="small"
+          label="Base run"
+          value={selectedRunId ?? ''}
+          onChange={(e) => onSelectRun(runs.find(run => run.runId === Number(e.target.value)) ?? null)}
+          sx={{ minWidth: 260 }}
+        >
+          {runs.map(run => (
+            <MenuItem key={run.runId} value={run.runId}>
+              {new Date(run.savedAt).toLocaleString()}
+              {run.savedAt === currentSavedAt ? ' (open)' : ''}
+              {` • ${run.result.characters.length} characters`}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {diff && COUNTED_KINDS.map(({ kind, label }) => (
+          <Chip
+            key={kind}
+            label={`${countKind(kind)} ${label}`}
+            size="small"
+            sx={{ bgcolor: DIFF_COLORS[kind], color: 'white', fontWeight: 600 }}
+          />
+        ))}
+
+        {selectedRunId !== null && (
+          <Button size="small" onClick={() => onSelectRun(null)} sx={{ ml: 'auto' }}>
+            Stop diff
+          </Button>
+        )}
+      </Box>
+    </Paper>
+  );
+};
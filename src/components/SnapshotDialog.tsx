@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  ToggleButtonGroup,
+  ToggleButton,
+  Typography,
+  Box,
+  Alert
+} from '@mui/material';
+import { PhotoCamera } from '@mui/icons-material';
+import type { SnapshotBackground } from '../utils/snapshot';
+
+export interface SnapshotRequest {
+  format: 'svg' | 'png';
+  pixelRatio: number;
+  background: SnapshotBackground;
+  title: string | null;
+  includeBookId: boolean;
+  includeLegend: boolean;
+}
+
+interface SnapshotDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (request: SnapshotRequest) => Promise<void>;
+  defaultTitle: string;
+  bookLabel?: string;
+}
+
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({
+  open,
+  onClose,
+  onSave,
+  defaultTitle,
+  bookLabel
+}) => {
+  const [format, setFormat] = useState<'svg' | 'png'>('png');
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [background, setBackground] = useState<SnapshotBackground>('light');
+  const [includeTitle, setIncludeTitle] = useState(true);
+  const [title, setTitle] = useState(defaultTitle);
+  const [includeBookId, setIncludeBookId] = useState(!!bookLabel);
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        format,
+        pixelRatio,
+        background,
+        title: includeTitle ? title : null,
+        includeBookId: includeBookId && !!bookLabel,
+        includeLegend
+      });
+      onClose();
+    } catch (err) {
+      console.error('❌ Snapshot failed:', err);
+      setError(err instanceof Error ? err.message : 'Snapshot failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <PhotoCamera color="primary" />
+        Save Snapshot
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Typography variant="subtitle2" gutterBottom>Format</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+          <ToggleButtonGroup
+            value={format}
+            exclusive
+            onChange={(_, value) => value && setFormat(value)}
+            size="small"
+          >
+            <ToggleButton value="png">PNG</ToggleButton>
+            <ToggleButton value="svg">SVG</ToggleButton>
+          </ToggleButtonGroup>
+          {format === 'png' && (
+            <TextField
+              select
+              size="small"
+              label="Pixel density"
+              value={pixelRatio}
+              onChange={(e) => setPixelRatio(Number(e.target.value))}
+              sx={{ minWidth: 140 }}
+            >
+              {[1, 2, 3, 4].map(ratio => (
+                <MenuItem key={ratio} value={ratio}>{ratio}×</MenuItem>
+              ))}
+            </TextField>
+          )}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Background</Typography>
+        <ToggleButtonGroup
+          value={background}
+          exclusive
+          onChange={(_, value) => value && setBackground(value)}
+          size="small"
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="light">Light</ToggleButton>
+          <ToggleButton value="transparent">Transparent</ToggleButton>
+          <ToggleButton value="dark">Dark</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Typography variant="subtitle2">Annotations</Typography>
+        <FormControlLabel
+          control={<Checkbox checked={includeTitle} onChange={(e) => setIncludeTitle(e.target.checked)} />}
+          label="Title"
+        />
+        {includeTitle && (
+          <TextField
+            fullWidth
+            size="small"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            sx={{ mb: 1 }}
+          />
+        )}
+        {bookLabel && (
+          <FormControlLabel
+            control={<Checkbox checked={includeBookId} onChange={(e) => setIncludeBookId(e.target.checked)} />}
+            label={bookLabel}
+            sx={{ display: 'flex' }}
+          />
+        )}
+        <FormControlLabel
+          control={<Checkbox checked={includeLegend} onChange={(e) => setIncludeLegend(e.target.checked)} />}
+          label="Legend"
+          sx={{ display: 'flex' }}
+        />
+
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
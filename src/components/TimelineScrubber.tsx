@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  IconButton,
+  Slider,
+  TextField,
+  MenuItem,
+  Button,
+  Chip,
+  Tooltip
+} from '@mui/material';
+import { PlayArrow, Pause, SkipPrevious, SkipNext, History, SensorsRounded } from '@mui/icons-material';
+import type { AnalysisResult } from '../types';
+
+interface TimelineScrubberProps {
+  snapshots: AnalysisResult[];
+  frame: number | null;
+  isPlaying: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (frame: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onGoLive: () => void;
+}
+
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+const MAX_NEW_CHARACTERS_SHOWN = 8;
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  snapshots,
+  frame,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onGoLive
+}) => {
+  const lastFrame = snapshots.length - 1;
+  const shownFrame = frame ?? lastFrame;
+  const snapshot = snapshots[shownFrame];
+
+  // Characters that first appear in the shown batch
+  const newCharacters = useMemo(() => {
+    if (!snapshot) return [];
+    const previous = new Set((snapshots[shownFrame - 1]?.characters ?? []).map(char => char.name));
+    return snapshot.characters
+      .filter(char => !previous.has(char.name))
+      .sort((a, b) => b.mentions - a.mentions)
+      .map(char => char.name);
+  }, [snapshots, snapshot, shownFrame]);
+
+  return (
+    <Paper elevation={3} sx={{ p: 2, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <History color="primary" />
+        <Typography variant="subtitle1" fontWeight="600">
+          Timeline
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Batch {shownFrame + 1} / {snapshots.length}
+          {snapshot && ` • ${snapshot.characters.length} characters • ${snapshot.interactions.length} interactions`}
+        </Typography>
+        <Box sx={{ ml: 'auto' }}>
+          {frame === null ? (
+            <Chip icon={<SensorsRounded />} label="Live" color="success" size="small" variant="outlined" />
+          ) : (
+            <Button size="small" startIcon={<SensorsRounded />} onClick={onGoLive}>
+              Back to live
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Tooltip title="Previous batch" arrow>
+          <span>
+            <IconButton size="small" onClick={() => onSeek(shownFrame - 1)} disabled={shownFrame <= 0}>
+              <SkipPrevious />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={isPlaying ? 'Pause' : 'Play from here'} arrow>
+          <IconButton color="primary" onClick={isPlaying ? onPause : onPlay}>
+            {isPlaying ? <Pause /> : <PlayArrow />}
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Next batch" arrow>
+          <span>
+            <IconButton size="small" onClick={() => onSeek(shownFrame + 1)} disabled={shownFrame >= lastFrame}>
+              <SkipNext />
+            </IconButton>
+          </span>
+        </Tooltip>
+
+        <Slider
+          value={shownFrame}
+          min={0}
+          max={Math.max(0, lastFrame)}
+          step={1}
+          marks={snapshots.length <= 40}
+          onChange={(_, value) => onSeek(value as number)}
+          valueLabelDisplay="auto"
+          valueLabelFormat={(value) => `Batch ${value + 1}`}
+          sx={{ mx: 2, flex: 1 }}
+        />
+
+        <TextField
+          select
+          size="small"
+          label="Speed"
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          sx={{ minWidth: 90 }}
+        >
+          {SPEED_OPTIONS.map(option => (
+            <MenuItem key={option} value={option}>{option}×</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      {newCharacters.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 1 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+            New in this batch:
+          </Typography>
+          {newCharacters.slice(0, MAX_NEW_CHARACTERS_SHOWN).map(name => (
+            <Chip key={name} label={name} size="small" color="primary" variant="outlined" />
+          ))}
+          {newCharacters.length > MAX_NEW_CHARACTERS_SHOWN && (
+            <Typography variant="caption" color="text.secondary">
+              +{newCharacters.length - MAX_NEW_CHARACTERS_SHOWN} more
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  CircularProgress,
+  TextField
+} from '@mui/material';
+import { Description, CloudUpload } from '@mui/icons-material';
+import type { UploadedText } from '../types';
+import { extractText } from '../utils/textExtraction';
+
+interface UploadTextDialogProps {
+  open: boolean;
+  canAnalyze: boolean;
+  onClose: () => void;
+  onAnalyze: (upload: UploadedText) => void;
+}
+
+const PREVIEW_LENGTH = 1200;
+
+export const UploadTextDialog: React.FC<UploadTextDialogProps> = ({ open, canAnalyze, onClose, onAnalyze }) => {
+  const [upload, setUpload] = useState<UploadedText | null>(null);
+  const [title, setTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+
+    setIsParsing(true);
+    setError(null);
+    setUpload(null);
+    try {
+      const extracted = await extractText(file);
+      setUpload(extracted);
+      setTitle(extracted.title);
+      console.log(`📄 Extracted ${extracted.wordCount} words from ${file.name}`);
+    } catch (err) {
+      console.error('❌ Failed to read text file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleClose = () => {
+    setUpload(null);
+    setTitle('');
+    setError(null);
+    onClose();
+  };
+
+  const handleAnalyze = () => {
+    if (!upload) return;
+    onAnalyze({ ...upload, title: title.trim() || upload.title });
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Description color="primary" />
+        Analyze Your Own Text
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            handleFile(e.dataTransfer.files);
+          }}
+          sx={{
+            p: 4,
+            mb: 2,
+            textAlign: 'center',
+            cursor: 'pointer',
+            borderRadius: 2,
+            border: '2px dashed',
+            borderColor: isDragging ? 'primary.main' : 'divider',
+            bgcolor: isDragging ? 'action.hover' : 'grey.50',
+            transition: 'all 0.2s ease-in-out'
+          }}
+        >
+          <CloudUpload color="primary" sx={{ fontSize: 40, mb: 1 }} />
+          <Typography variant="body1" fontWeight="600">
+            Drop a file here or click to browse
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Plain text, EPUB or HTML. The text is extracted in your browser before it is sent.
+          </Typography>
+          <input
+            ref={inputRef}
+            type="file"
+            hidden
+            accept=".txt,.epub,.html,.htm,.xhtml"
+            onChange={(e) => {
+              handleFile(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </Box>
+
+        {isParsing && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2">Extracting text...</Typography>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {upload && (
+          <>
+            <TextField
+              fullWidth
+              size="small"
+              label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              sx={{ mb: 2 }}
+            />
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              <Chip label={upload.fileName} size="small" variant="outlined" />
+              <Chip label={upload.format.toUpperCase()} size="small" color="primary" />
+              <Chip label={`${upload.wordCount.toLocaleString()} words`} size="small" variant="outlined" />
+              <Chip
+                label={upload.chapters.length > 0 ? `${upload.chapters.length} chapters detected` : 'No chapters detected'}
+                size="small"
+                variant="outlined"
+              />
+              {upload.removedBoilerplate && (
+                <Chip label="Project Gutenberg header removed" size="small" color="success" variant="outlined" />
+              )}
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: upload.chapters.length > 0 ? '1fr 2fr' : '1fr' }, gap: 2 }}>
+              {upload.chapters.length > 0 && (
+                <Box>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Chapters
+                  </Typography>
+                  <List dense sx={{ p: 0, maxHeight: 280, overflow: 'auto', bgcolor: 'grey.50', borderRadius: 2 }}>
+                    {upload.chapters.map((chapter, index) => (
+                      <ListItem key={index}>
+                        <ListItemText
+                          primary={chapter.title}
+                          secondary={`${chapter.wordCount.toLocaleString()} words`}
+                          slotProps={{ primary: { noWrap: true } }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </Box>
+              )}
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  Preview
+                </Typography>
+                <Typography
+                  component="pre"
+                  variant="body2"
+                  sx={{
+                    m: 0,
+                    p: 2,
+                    maxHeight: 280,
+                    overflow: 'auto',
+                    whiteSpace: 'pre-wrap',
+                    fontFamily: 'Georgia, serif',
+                    bgcolor: 'grey.50',
+                    borderRadius: 2
+                  }}
+                >
+                  {upload.text.slice(0, PREVIEW_LENGTH)}
+                  {upload.text.length > PREVIEW_LENGTH && '…'}
+                </Typography>
+              </Box>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} color="inherit">
+          Cancel
+        </Button>
+        <Button onClick={handleAnalyze} variant="contained" disabled={!upload || isParsing || !canAnalyze}>
+          Analyze Text
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
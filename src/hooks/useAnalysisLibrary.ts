@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AnalysisResult, SavedAnalysis } from '../types';
+import {
+  saveAnalysis as storeAnalysis,
+  getAnalysis as loadAnalysis,
+  listAnalyses,
+  listRuns,
+  deleteAnalysis
+} from '../utils/analysisStore';
+
+export const useAnalysisLibrary = () => {
+  const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAnalyses(await listAnalyses());
+      setError(null);
+    } catch (err) {
+      console.error('❌ Failed to read saved analyses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read saved analyses');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveAnalysis = useCallback(async (bookId: number, title: string, result: AnalysisResult) => {
+    try {
+      await storeAnalysis({ bookId, title, result, savedAt: Date.now() });
+      console.log(`💾 Saved analysis for "${title}" (ID: ${bookId})`);
+      await refresh();
+    } catch (err) {
+      console.error('❌ Failed to save analysis:', err);
+    }
+  }, [refresh]);
+
+  const getAnalysis = useCallback(async (bookId: number) => {
+    try {
+      return await loadAnalysis(bookId);
+    } catch (err) {
+      console.error('❌ Failed to load saved analysis:', err);
+      return undefined;
+    }
+  }, []);
+
+  const getRuns = useCallback(async (bookId: number) => {
+    try {
+      return await listRuns(bookId);
+    } catch (err) {
+      console.error('❌ Failed to load analysis runs:', err);
+      return [];
+    }
+  }, []);
+
+  const removeAnalysis = useCallback(async (bookId: number) => {
+    try {
+      await deleteAnalysis(bookId);
+      await refresh();
+    } catch (err) {
+      console.error('❌ Failed to delete saved analysis:', err);
+    }
+  }, [refresh]);
+
+  return {
+    analyses,
+    isLoading,
+    error,
+    saveAnalysis,
+    getAnalysis,
+    getRuns,
+    removeAnalysis
+  };
+};
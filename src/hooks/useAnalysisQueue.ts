@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { io, Socket } from 'socket.io-client';
+import type { AnalysisResult, QueueItem, StreamingUpdate } from '../types';
+import { startAnalysis } from '../utils/api';
+import { withChapterSlices } from '../utils/chapters';
+
+// Consecutive failed connection attempts before a run gives up and frees its slot
+const MAX_CONNECT_ATTEMPTS = 5;
+
+const isFinished = (item: QueueItem) =>
+  item.status === 'complete' || item.status === 'error' || item.status === 'cancelled';
+
+/**
+ * A reading list of books analyzed in the background, up to `concurrency` at a time.
+ * Every run gets its own socket and session so results never mix with each other or
+ * with the book being explored on the main page.
+ */
+export const useAnalysisQueue = (
+  serverUrl: string,
+  onComplete?: (item: QueueItem, result: AnalysisResult) => void
+) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const socketsRef = useRef(new Map<string, Socket>());
+  const updatesRef = useRef(new Map<string, StreamingUpdate[]>());
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const closeSession = useCallback((id: string) => {
+    socketsRef.current.get(id)?.close();
+    socketsRef.current.delete(id);
+    updatesRef.current.delete(id);
+  }, []);
+
+  const launch = useCallback((item: QueueItem, sessionId: string) => {
+    const socket = io(serverUrl);
+    socketsRef.current.set(item.id, socket);
+    updatesRef.current.set(item.id, []);
+    let hasStarted = false;
+    let failedAttempts = 0;
+
+    socket.on('connect_error', (error) => {
+      failedAttempts += 1;
+      if (failedAttempts < MAX_CONNECT_ATTEMPTS) return;
+
+      console.error(`❌ Could not reach the server for "${item.title}":`, error);
+      updateItem(item.id, { status: 'error', error: `Could not connect to the server (${error.message})` });
+      closeSession(item.id);
+    });
+
+    socket.on('connect', async () => {
+      failedAttempts = 0;
+      // Rejoin on every reconnect, but only ask the server to start the run once
+      socket.emit('join', sessionId);
+      if (hasStarted) return;
+      hasStarted = true;
+
+      try {
+        await startAnalysis(sessionId, item.bookId);
+        console.log(`✅ Queued analysis started for "${item.title}" (ID: ${item.bookId})`);
+      } catch (error) {
+        console.error(`❌ Failed to start queued analysis for "${item.title}":`, error);
+        updateItem(item.id, { status: 'error', error: error instanceof Error ? error.message : 'Failed to start' });
+        closeSession(item.id);
+      }
+    });
+
+    socket.on('analysis_update', (update: StreamingUpdate) => {
+      const received = [...(updatesRef.current.get(item.id) ?? []), update];
+      updatesRef.current.set(item.id, received);
+
+      switch (update.type) {
+        case 'progress':
+        case 'batch_complete':
+          if (update.totalBatches !== undefined) {
+            updateItem(item.id, { batchIndex: update.batchIndex, totalBatches: update.totalBatches });
+          }
+          break;
+        case 'analysis_complete': {
+          const slices = withChapterSlices(received.filter(entry => entry.data));
+          const result = slices[slices.length - 1] ?? update.data;
+          if (result) {
+            const completedAt = Date.now();
+            updateItem(item.id, { status: 'complete', result, completedAt });
+            onCompleteRef.current?.({ ...item, sessionId, completedAt }, result);
+          } else {
+            updateItem(item.id, { status: 'error', error: 'The analysis finished without a result' });
+          }
+          closeSession(item.id);
+          console.log(`🎉 Queued analysis complete for "${item.title}"`);
+          break;
+        }
+        case 'error':
+          updateItem(item.id, { status: 'error', error: update.message ?? 'Analysis failed' });
+          closeSession(item.id);
+          break;
+        case 'cancelled':
+          updateItem(item.id, { status: 'cancelled' });
+          closeSession(item.id);
+          break;
+      }
+    });
+  }, [serverUrl, updateItem, closeSession]);
+
+  // Start queued books in order whenever a slot is free
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const running = items.filter(item => item.status === 'running').length;
+    const next = items.filter(item => item.status === 'queued').slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const sessions = new Map(next.map(item => [item.id, `session_${Date.now()}_${item.bookId}`]));
+    setItems(prev => prev.map(item =>
+      sessions.has(item.id) ? { ...item, status: 'running', sessionId: sessions.get(item.id) } : item
+    ));
+    next.forEach(item => launch(item, sessions.get(item.id)!));
+  }, [items, concurrency, isRunning, launch]);
+
+  useEffect(() => {
+    const sockets = socketsRef.current;
+    return () => {
+      sockets.forEach(socket => socket.close());
+      sockets.clear();
+    };
+  }, []);
+
+  const addBook = useCallback((bookId: number, title: string) => {
+    setItems(prev => {
+      if (prev.some(item => item.bookId === bookId && !isFinished(item))) return prev;
+      return [...prev, { id: `${bookId}_${Date.now()}`, bookId, title, status: 'queued' }];
+    });
+  }, []);
+
+  // Removing a running book also cancels it on the server
+  const removeItem = useCallback((id: string) => {
+    const item = items.find(entry => entry.id === id);
+    if (item?.status === 'running' && item.sessionId) {
+      socketsRef.current.get(id)?.emit('cancel_analysis', { sessionId: item.sessionId });
+    }
+    closeSession(id);
+    setItems(prev => prev.filter(entry => entry.id !== id));
+  }, [items, closeSession]);
+
+  const retryItem = useCallback((id: string) => {
+    updateItem(id, {
+      status: 'queued',
+      sessionId: undefined,
+      batchIndex: undefined,
+      totalBatches: undefined,
+      error: undefined
+    });
+  }, [updateItem]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => !isFinished(item)));
+  }, []);
+
+  return {
+    items,
+    concurrency,
+    isRunning,
+    addBook,
+    removeItem,
+    retryItem,
+    clearFinished,
+    setConcurrency,
+    setIsRunning
+  };
+};
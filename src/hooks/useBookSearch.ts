@@ -0,0 +1,57 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { Book, BookSearchResult, CatalogueFilters } from '../types';
+import type { BookSearchRequest, BookSearchResponse } from '../utils/bookSearch';
+import { getPopularSearches, readSearchHistory, recordSearch } from '../utils/searchHistory';
+
+const MAX_POPULAR = 5;
+const NO_RESULTS: BookSearchResult[] = [];
+
+// Ranked catalogue search served by a Web Worker, plus the searches made on this device
+export const useBookSearch = (books: Book[], query: string, filters: CatalogueFilters, limit: number) => {
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestRef = useRef(0);
+  const [response, setResponse] = useState<BookSearchResponse | null>(null);
+  const [history, setHistory] = useState(readSearchHistory);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/bookSearch.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BookSearchResponse>) => {
+      // Answers to queries typed over since are dropped
+      if (event.data.requestId === latestRequestRef.current) setResponse(event.data);
+    };
+    worker.onerror = (event) => console.error('❌ Book search worker failed:', event.message);
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // The index is rebuilt only when the catalogue changes; searches are queued behind it
+  useEffect(() => {
+    if (books.length === 0) return;
+    workerRef.current?.postMessage({ type: 'index', books } satisfies BookSearchRequest);
+  }, [books]);
+
+  useEffect(() => {
+    if (books.length === 0) return;
+    const requestId = ++latestRequestRef.current;
+    workerRef.current?.postMessage({ type: 'search', requestId, query, filters, limit } satisfies BookSearchRequest);
+  }, [books, query, filters, limit]);
+
+  const rememberSearch = useCallback((searchQuery: string) => {
+    const trimmed = searchQuery.trim();
+    if (trimmed) setHistory(prev => recordSearch(prev, trimmed));
+  }, []);
+
+  const popularSearches = useMemo(() => getPopularSearches(history, MAX_POPULAR), [history]);
+
+  return {
+    results: response?.results ?? NO_RESULTS,
+    total: response?.total ?? 0,
+    recentSearches: history.recent,
+    popularSearches,
+    rememberSearch
+  };
+};
@@ -1,71 +1,198 @@
-import { useState, useCallback } from 'react';
-import type { AnalysisResult, NetworkNode, NetworkLink } from '../types';
+import { useState, useCallback, useMemo } from 'react';
+import type { AnalysisResult, ChapterRange, CharacterDetail, CharacterOverrides, FocusSettings, NetworkFilters, NetworkNode } from '../types';
+import { mergeAliases } from '../utils/aliases';
+import { sliceChapters } from '../utils/chapters';
+import { computeGraphMetrics } from '../utils/graphMetrics';
+import {
+  buildNetwork,
+  DEFAULT_FILTERS,
+  getImportance,
+  getNeighbourhood,
+  keepNodes,
+  keepTopNodes,
+  removeIsolatedNodes
+} from '../utils/network';
+import { diffAnalyses, withRemovedItems } from '../utils/diff';
+
+const emptyOverrides: CharacterOverrides = { merges: {}, splits: [] };
+
+const defaultFocus: FocusSettings = { character: null, hops: 1, mode: 'hide' };
 
 export const useNetworkData = () => {
-  const [nodes, setNodes] = useState<NetworkNode[]>([]);
-  const [links, setLinks] = useState<NetworkLink[]>([]);
+  const [sourceData, setSourceData] = useState<AnalysisResult | null>(null);
+  const [overrides, setOverrides] = useState<CharacterOverrides>(emptyOverrides);
   const [highlightedCharacter, setHighlightedCharacter] = useState<string | null>(null);
-
-  // Enhanced color palette with many unique colors
-  const colorPalette = [
-    '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57',
-    '#ff9ff3', '#54a0ff', '#5f27cd', '#00d2d3', '#ff9f43',
-    '#10ac84', '#ee5253', '#0abde3', '#3742fa', '#2ed573',
-    '#ff5722', '#9c27b0', '#673ab7', '#3f51b5', '#2196f3',
-    '#03a9f4', '#00bcd4', '#009688', '#4caf50', '#8bc34a',
-    '#cddc39', '#ffeb3b', '#ffc107', '#ff9800', '#ff5722',
-    '#795548', '#607d8b', '#e91e63', '#f44336', '#ff4081',
-    '#c51162', '#aa00ff', '#6200ea', '#3d5afe', '#2979ff',
-    '#00b0ff', '#00e5ff', '#1de9b6', '#00e676', '#76ff03',
-    '#c6ff00', '#ffea00', '#ffc400', '#ff9100', '#ff3d00'
-  ];
+  const [chapterRange, setChapterRange] = useState<ChapterRange | null>(null);
+  const [diffBase, setDiffBase] = useState<AnalysisResult | null>(null);
+  const [filters, setFilters] = useState<NetworkFilters>(DEFAULT_FILTERS);
+  const [focus, setFocus] = useState<FocusSettings>(defaultFocus);
 
   const updateData = useCallback((data: AnalysisResult) => {
     if (!data?.characters || !data?.interactions) return;
+    setSourceData(data);
+  }, []);
+
+  // Aliases and manual merges/splits are re-applied to every incoming result
+  const mergedData = useMemo(
+    () => (sourceData ? mergeAliases(sourceData, overrides) : null),
+    [sourceData, overrides]
+  );
+
+  const chapters = useMemo(() => mergedData?.result.chapters ?? [], [mergedData]);
+
+  // The selected span of chapters, clamped to what has arrived so far
+  const activeRange = useMemo(() => {
+    if (!chapterRange || chapters.length === 0) return null;
+    const lastChapter = chapters.length - 1;
+    return { start: Math.min(chapterRange.start, lastChapter), end: Math.min(chapterRange.end, lastChapter) };
+  }, [chapterRange, chapters]);
+
+  const displayedData = useMemo(() => {
+    if (!mergedData) return null;
+    return activeRange ? sliceChapters(mergedData.result, activeRange) : mergedData.result;
+  }, [mergedData, activeRange]);
+
+  // An earlier run to diff against goes through the same merging and chapter filtering
+  const baseData = useMemo(() => {
+    if (!diffBase) return null;
+    const merged = mergeAliases(diffBase, overrides).result;
+    return activeRange ? sliceChapters(merged, activeRange) : merged;
+  }, [diffBase, overrides, activeRange]);
+
+  const diff = useMemo(
+    () => (baseData && displayedData ? diffAnalyses(baseData, displayedData) : null),
+    [baseData, displayedData]
+  );
+
+  // Slider limits for the filter panel
+  const filterBounds = useMemo(() => ({
+    characterCount: displayedData?.characters.length ?? 0,
+    maxMentions: Math.max(1, ...(displayedData?.characters.map(char => char.mentions) ?? [])),
+    maxWeight: Math.max(1, ...(displayedData?.interactions.map(interaction => interaction.weight) ?? []))
+  }), [displayedData]);
+
+  // While diffing, characters and pairs that disappeared stay in the graph so they can be marked
+  const filteredNetwork = useMemo(() => {
+    if (!displayedData) return { nodes: [], links: [] };
+    let network = buildNetwork(baseData ? withRemovedItems(displayedData, baseData) : displayedData, filters);
+
+    const { maxNodes, rankBy } = filters;
+    if (maxNodes !== null && network.nodes.length > maxNodes) {
+      let score = (node: NetworkNode) => node.mentions;
+      if (rankBy !== 'mentions') {
+        // Centrality ranks are taken from the graph left after the thresholds
+        const scores = computeGraphMetrics(network.nodes, network.links);
+        score = node => scores[node.id]?.[rankBy] ?? 0;
+      }
+      network = keepTopNodes(network, maxNodes, score);
+    }
+
+    return filters.hideIsolated ? removeIsolatedNodes(network) : network;
+  }, [displayedData, baseData, filters]);
+
+  // Characters within `hops` of the focused one; null when focus is off or its centre is filtered out
+  const focusedCharacters = useMemo(() => {
+    const { character, hops } = focus;
+    if (!character || !filteredNetwork.nodes.some(node => node.id === character)) return null;
+    return new Set(getNeighbourhood(filteredNetwork.links, character, hops).keys());
+  }, [filteredNetwork, focus]);
+
+  // In "hide" mode the graph is cut down to the neighbourhood, which re-runs the layout for it
+  const { nodes, links } = useMemo(
+    () => (focusedCharacters && focus.mode === 'hide' ? keepNodes(filteredNetwork, focusedCharacters) : filteredNetwork),
+    [filteredNetwork, focusedCharacters, focus.mode]
+  );
+
+  // Centrality, clustering and community structure of the displayed graph
+  const metrics = useMemo(() => computeGraphMetrics(nodes, links), [nodes, links]);
+
+  const mergeCharacters = useCallback((names: string[], target: string) => {
+    setOverrides(prev => {
+      const merges = { ...prev.merges };
+      // A target already merged elsewhere takes the new group with it, unless that would form a cycle
+      const existing = merges[target];
+      const destination = existing && !names.includes(existing) ? existing : target;
+      if (destination === target) delete merges[target];
+
+      names.filter(name => name !== target && name !== destination).forEach(name => {
+        merges[name] = destination;
+        // Anything previously folded into this character follows it to the new target
+        Object.keys(merges).forEach(key => {
+          if (merges[key] === name) merges[key] = destination;
+        });
+      });
 
-    // Filter characters with sufficient mentions
-    const filteredCharacters = data.characters.filter(char => char.mentions >= 2);
-    const characterMap = new Map();
-
-    // Create enhanced node objects with unique colors
-    const newNodes: NetworkNode[] = filteredCharacters.map((char, index) => {
-      const importance = Math.min(5, Math.ceil(char.mentions / 5));
-      const node: NetworkNode = {
-        id: char.name,
-        name: char.name,
-        mentions: char.mentions,
-        description: char.description,
-        radius: Math.max(30, Math.min(60, 20 + Math.sqrt(char.mentions) * 6)), // Slightly larger for better text display
-        importance,
-        color: colorPalette[index % colorPalette.length] // Ensure unique colors
+      return {
+        merges,
+        splits: prev.splits.filter(name => !names.includes(name))
       };
-      characterMap.set(char.name, node);
-      return node;
     });
+  }, []);
+
+  const splitCharacter = useCallback((name: string) => {
+    setOverrides(prev => {
+      if (prev.merges[name]) {
+        const merges = { ...prev.merges };
+        delete merges[name];
+        return { ...prev, merges };
+      }
+      return prev.splits.includes(name) ? prev : { ...prev, splits: [...prev.splits, name] };
+    });
+  }, []);
+
+  const resetOverrides = useCallback(() => {
+    setOverrides(emptyOverrides);
+  }, []);
+
+  const selectChapterRange = useCallback((range: ChapterRange | null) => {
+    setChapterRange(range);
+  }, []);
 
-    // Filter and create links
-    const validInteractions = data.interactions.filter(interaction => 
-      characterMap.has(interaction.source) && 
-      characterMap.has(interaction.target) &&
-      interaction.weight >= 2
-    );
-
-    const newLinks: NetworkLink[] = validInteractions.map(interaction => ({
-      source: interaction.source,
-      target: interaction.target,
-      weight: interaction.weight,
-      contexts: interaction.contexts,
-      strokeWidth: Math.max(2, Math.min(10, Math.sqrt(interaction.weight) * 2.5))
-    }));
-
-    setNodes(newNodes);
-    setLinks(newLinks);
+  const compareWithRun = useCallback((base: AnalysisResult | null) => {
+    setDiffBase(base);
+  }, []);
+
+  const updateFilters = useCallback((changes: Partial<NetworkFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_FILTERS);
+  }, []);
+
+  const updateFocus = useCallback((changes: Partial<FocusSettings>) => {
+    setFocus(prev => ({ ...prev, ...changes }));
   }, []);
 
   const highlightCharacter = useCallback((characterName: string | null) => {
     setHighlightedCharacter(characterName);
   }, []);
 
+  // Everything known about one character in the displayed chapters, including partners below the filter thresholds
+  const getCharacterDetail = useCallback((name: string): CharacterDetail | null => {
+    const character = displayedData?.characters.find(char => char.name === name);
+    if (!character) return null;
+
+    const partners = new Map<string, { weight: number; contexts: string[] }>();
+    displayedData!.interactions.forEach(interaction => {
+      const partner = interaction.source === name ? interaction.target : interaction.target === name ? interaction.source : null;
+      if (!partner || partner === name) return;
+      const existing = partners.get(partner) ?? { weight: 0, contexts: [] };
+      partners.set(partner, {
+        weight: existing.weight + interaction.weight,
+        contexts: [...existing.contexts, ...interaction.contexts]
+      });
+    });
+
+    return {
+      character,
+      importance: getImportance(character.mentions),
+      mergedNames: (mergedData?.groups[name] ?? []).filter(member => member !== name),
+      partners: Array.from(partners, ([partner, info]) => ({ name: partner, ...info })).sort((a, b) => b.weight - a.weight),
+      metrics: metrics[name]
+    };
+  }, [displayedData, mergedData, metrics]);
+
   const getCharacterInteractions = useCallback(() => {
     const interactionMap = new Map<string, Map<string, number>>();
     
@@ -106,9 +233,31 @@ export const useNetworkData = () => {
   return {
     nodes,
     links,
+    metrics,
+    analysisResult: sourceData,
     highlightedCharacter,
+    characters: mergedData?.result.characters ?? [],
+    characterGroups: mergedData?.groups ?? {},
+    overrides,
+    chapters,
+    chapterRange,
+    diff,
+    filters,
+    filterBounds,
+    focus,
+    // Only set in "fade" mode, where the rest of the graph stays on screen
+    focusNeighbourhood: focus.mode === 'fade' ? focusedCharacters : null,
     updateData,
     highlightCharacter,
-    getCharacterInteractions
+    getCharacterInteractions,
+    getCharacterDetail,
+    mergeCharacters,
+    splitCharacter,
+    resetOverrides,
+    selectChapterRange,
+    compareWithRun,
+    updateFilters,
+    resetFilters,
+    updateFocus
   };
 };
\ No newline at end of file
@@ -1,31 +1,140 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import type { StreamingUpdate } from '../types';
+import type { ConnectionStatus, StreamingUpdate } from '../types';
+
+const RESUMED_NOTICE_MS = 5000;
+// Replies to cancel / pause / resume, which belong to the session the control was sent for
+const CONTROL_REPLIES: StreamingUpdate['type'][] = ['cancelled', 'paused', 'resumed'];
+// A replay that has not closed the gap by then is assumed lost and asked for again
+const REPLAY_RETRY_MS = 5000;
+
+// Keep sequenced updates in order so replayed batches land where they belong
+const insertInOrder = (list: StreamingUpdate[], update: StreamingUpdate) => {
+  const index = update.seq === undefined
+    ? -1
+    : list.findIndex(item => item.seq !== undefined && item.seq > update.seq!);
+  return index === -1 ? [...list, update] : [...list.slice(0, index), update, ...list.slice(index)];
+};
 
 export const useSocket = (serverUrl: string) => {
   const [socket, setSocket] = useState<Socket | null>(null);
+  // Joins can be asked for before the first render that sees the socket, e.g. when restoring a shared link
+  const socketRef = useRef<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [missedUpdates, setMissedUpdates] = useState(0);
   const [updates, setUpdates] = useState<StreamingUpdate[]>([]);
   const [currentUpdate, setCurrentUpdate] = useState<StreamingUpdate | null>(null);
+  // The session to rejoin after a reconnect and the sequence numbers received for it
+  const sessionRef = useRef<string | null>(null);
+  const seenSeqsRef = useRef(new Set<number>());
+  const highestSeqRef = useRef(-1);
+  // The last replay asked for, so an unanswered one is not repeated on every update
+  const replayRequestedAtRef = useRef<number | null>(null);
+  const hasConnectedRef = useRef(false);
+  // The session the last run control was sent for
+  const controlSessionRef = useRef<string | null>(null);
 
   useEffect(() => {
     const newSocket = io(serverUrl);
+    socketRef.current = newSocket;
     setSocket(newSocket);
 
+    // Highest sequence number up to which nothing is missing (-1 before the first update)
+    const getContiguousSeq = () => {
+      let seq = -1;
+      while (seenSeqsRef.current.has(seq + 1)) seq++;
+      return seq;
+    };
+
+    const countMissing = () => {
+      const contiguousSeq = getContiguousSeq();
+      const receivedAfter = Array.from(seenSeqsRef.current).filter(seq => seq > contiguousSeq).length;
+      return highestSeqRef.current - contiguousSeq - receivedAfter;
+    };
+
+    // Ask the server to send everything after the last update we hold without gaps
+    const requestReplay = () => {
+      if (!sessionRef.current) return;
+      const afterSeq = getContiguousSeq();
+      newSocket.emit('replay_updates', { sessionId: sessionRef.current, afterSeq });
+      replayRequestedAtRef.current = Date.now();
+      console.log(`🔁 Requested updates after #${afterSeq}`);
+    };
+
     newSocket.on('connect', () => {
       setIsConnected(true);
-      console.log('✅ Socket connected');
+      // A session picked before the first connect has not been joined yet either
+      if (sessionRef.current) newSocket.emit('join', sessionRef.current);
+      if (hasConnectedRef.current && sessionRef.current) {
+        requestReplay();
+        setConnectionStatus('resumed');
+        console.log('🔄 Socket reconnected, rejoined session:', sessionRef.current);
+      } else {
+        setConnectionStatus('connected');
+        console.log('✅ Socket connected');
+      }
+      hasConnectedRef.current = true;
     });
 
-    newSocket.on('disconnect', () => {
+    newSocket.on('disconnect', (reason) => {
       setIsConnected(false);
-      console.log('❌ Socket disconnected');
+      replayRequestedAtRef.current = null;
+      if (reason === 'io client disconnect') {
+        setConnectionStatus('disconnected');
+      } else {
+        // The client only retries by itself when the server did not close the connection on purpose
+        if (reason === 'io server disconnect') newSocket.connect();
+        setConnectionStatus('reconnecting');
+      }
+      console.log('❌ Socket disconnected:', reason);
+    });
+
+    newSocket.io.on('reconnect_failed', () => {
+      setConnectionStatus('disconnected');
+      console.log('❌ Gave up reconnecting');
     });
 
     newSocket.on('analysis_update', (update: StreamingUpdate) => {
-      console.log('📨 Received update:', update.type);
-      setCurrentUpdate(update);
-      setUpdates(prev => [...prev, update]);
+      // A retry starts a new session while the old one may still answer the cancel sent to it
+      const controlSession = controlSessionRef.current;
+      if (CONTROL_REPLIES.includes(update.type) && controlSession && controlSession !== sessionRef.current) {
+        console.log(`⏭️ Ignoring ${update.type} for earlier session:`, controlSession);
+        return;
+      }
+
+      if (update.seq === undefined) {
+        console.log('📨 Received update:', update.type);
+        setCurrentUpdate(update);
+        setUpdates(prev => [...prev, update]);
+        return;
+      }
+
+      if (seenSeqsRef.current.has(update.seq)) {
+        console.log(`⏭️ Skipping duplicate update #${update.seq}`);
+        return;
+      }
+      seenSeqsRef.current.add(update.seq);
+      console.log(`📨 Received update #${update.seq}:`, update.type);
+
+      // Replayed older batches fill the history but do not replace the latest status
+      const isLatest = update.seq > highestSeqRef.current;
+      if (isLatest) {
+        highestSeqRef.current = update.seq;
+        setCurrentUpdate(update);
+      }
+      setUpdates(prev => insertInOrder(prev, update));
+
+      const missing = countMissing();
+      setMissedUpdates(missing);
+      if (missing > 0) {
+        setConnectionStatus('gap');
+        const requestedAt = replayRequestedAtRef.current;
+        if (requestedAt === null || Date.now() - requestedAt > REPLAY_RETRY_MS) requestReplay();
+      } else {
+        replayRequestedAtRef.current = null;
+        setConnectionStatus(prev => (prev === 'gap' ? 'resumed' : prev));
+      }
     });
 
     newSocket.on('joined', (data) => {
@@ -34,26 +143,59 @@ export const useSocket = (serverUrl: string) => {
 
     return () => {
       newSocket.close();
+      socketRef.current = null;
     };
   }, [serverUrl]);
 
+  // "Resumed" is a passing notice; settle back to the plain connected state
+  useEffect(() => {
+    if (connectionStatus !== 'resumed') return;
+    const timer = setTimeout(() => setConnectionStatus('connected'), RESUMED_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [connectionStatus]);
+
+  // Each run has its own session, whose sequence numbers start again from 0
   const joinSession = (sessionId: string) => {
-    if (socket) {
-      socket.emit('join', sessionId);
+    const previous = sessionRef.current;
+    sessionRef.current = sessionId;
+    // Otherwise the connect handler joins it
+    if (socketRef.current?.connected) {
+      // Stop the previous run's batches landing in this run's history
+      if (previous && previous !== sessionId) socketRef.current.emit('leave', previous);
+      socketRef.current.emit('join', sessionId);
+    }
+  };
+
+  // Run controls for the joined session; the server answers with cancelled / paused / resumed updates
+  const sendRunControl = (action: 'cancel' | 'pause' | 'resume') => {
+    if (socket && sessionRef.current) {
+      controlSessionRef.current = sessionRef.current;
+      socket.emit(`${action}_analysis`, { sessionId: sessionRef.current });
+      console.log(`🎛️ Sent ${action} for session:`, sessionRef.current);
     }
   };
 
   const clearUpdates = () => {
     setUpdates([]);
     setCurrentUpdate(null);
+    seenSeqsRef.current = new Set();
+    highestSeqRef.current = -1;
+    replayRequestedAtRef.current = null;
+    setMissedUpdates(0);
+    setConnectionStatus(prev => (prev === 'gap' ? 'connected' : prev));
   };
 
   return {
     socket,
     isConnected,
+    connectionStatus,
+    missedUpdates,
     updates,
     currentUpdate,
     joinSession,
+    cancelAnalysis: () => sendRunControl('cancel'),
+    pauseAnalysis: () => sendRunControl('pause'),
+    resumeAnalysis: () => sendRunControl('resume'),
     clearUpdates
   };
-};
\ No newline at end of file
+};
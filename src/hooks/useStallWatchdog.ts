@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+
+const DEFAULT_STALL_TIMEOUT_MS = 120_000;
+
+/**
+ * Flags a run as stalled when it is active but `activity` has not changed for `timeoutMs`.
+ * Any change of `activity` (e.g. the number of updates received) restarts the countdown.
+ */
+export const useStallWatchdog = (isActive: boolean, activity: unknown, timeoutMs: number = DEFAULT_STALL_TIMEOUT_MS) => {
+  const [stalledActivity, setStalledActivity] = useState<{ value: unknown } | null>(null);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setTimeout(() => setStalledActivity({ value: activity }), timeoutMs);
+    return () => clearTimeout(timer);
+  }, [isActive, activity, timeoutMs]);
+
+  // Stale once anything new arrives or the run stops, without needing another state update
+  return isActive && stalledActivity !== null && stalledActivity.value === activity;
+};
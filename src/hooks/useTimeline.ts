@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+
+const BASE_FRAME_INTERVAL_MS = 1200;
+
+/**
+ * Playback state for stepping through a list of frames. `frame` is null while following
+ * the live (latest) state and an index while the user is replaying history.
+ */
+export const useTimeline = (frameCount: number) => {
+  const [frame, setFrame] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Drop out of replay when the history is cleared for a new run
+  const activeFrame = frame !== null && frame < frameCount ? frame : null;
+  // Playback rests on the last frame and resumes if new frames arrive while playing
+  const playing = isPlaying && activeFrame !== null && activeFrame < frameCount - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      setFrame(prev => (prev === null ? prev : Math.min(prev + 1, frameCount - 1)));
+    }, BASE_FRAME_INTERVAL_MS / speed);
+
+    return () => clearInterval(timer);
+  }, [playing, speed, frameCount]);
+
+  const play = useCallback(() => {
+    if (frameCount === 0) return;
+    // Restart from the beginning when starting from live or the last frame
+    setFrame(prev => (prev === null || prev >= frameCount - 1 ? 0 : prev));
+    setIsPlaying(true);
+  }, [frameCount]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback((index: number) => {
+    setFrame(Math.max(0, Math.min(frameCount - 1, index)));
+  }, [frameCount]);
+
+  const goLive = useCallback(() => {
+    setIsPlaying(false);
+    setFrame(null);
+  }, []);
+
+  return {
+    frame: activeFrame,
+    isPlaying: isPlaying && activeFrame !== null,
+    speed,
+    setSpeed,
+    play,
+    pause,
+    seek,
+    goLive
+  };
+};
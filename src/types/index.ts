@@ -3,6 +3,7 @@ export interface Character {
     mentions: number;
     description: string;
     aliases?: string[];
+    chapterMentions?: number[]; // mentions per chapter, indexed like AnalysisResult.chapters
   }
   
   export interface Interaction {
@@ -10,26 +11,45 @@ export interface Character {
     target: string;
     weight: number;
     contexts: string[];
+    chapterWeights?: number[]; // weight per chapter, indexed like AnalysisResult.chapters
+    contextChapters?: number[]; // chapter index of each entry in contexts
   }
   
+  export interface ChapterRange {
+    start: number;
+    end: number; // inclusive
+  }
+
+  export interface ChapterInfo {
+    index: number;
+    title: string;
+    range?: ChapterRange; // source chapters covered when a slice is a whole batch
+  }
+
   export interface AnalysisResult {
     characters: Character[];
     interactions: Interaction[];
+    chapters?: ChapterInfo[];
   }
   
   export interface StreamingUpdate {
-    type: 'batch_complete' | 'analysis_complete' | 'error' | 'progress';
+    type: 'batch_complete' | 'analysis_complete' | 'error' | 'progress' | 'cancelled' | 'paused' | 'resumed';
     batchIndex?: number;
     totalBatches?: number;
+    chapterRange?: ChapterRange; // chapters of the book covered by this batch
+    seq?: number; // per-session sequence number from 0, used to spot and replay missed updates
     data?: AnalysisResult;
     message?: string;
   }
+
+  export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'resumed' | 'gap' | 'disconnected';
   
   export interface NetworkNode {
     id: string;
     name: string;
     mentions: number;
     description: string;
+    aliases?: string[];
     radius: number;
     importance: number;
     color: string;
@@ -47,9 +67,199 @@ export interface Character {
     strokeWidth: number;
   }
   
+  export type MetricKey = 'degree' | 'weightedDegree' | 'betweenness' | 'closeness' | 'eigenvector' | 'clustering';
+
+  export interface NodeMetrics extends Record<MetricKey, number> {
+    community: number;
+  }
+
+  export interface NetworkSummary {
+    nodeCount: number;
+    linkCount: number;
+    density: number;
+    averageDegree: number;
+    communityCount: number;
+    topCharacters: string[]; // the three characters with the highest weighted degree
+    topWeightShare: number;
+    degreeHistogram: number[]; // number of characters at each degree
+  }
+
+  export interface ZoomState {
+    x: number;
+    y: number;
+    k: number;
+  }
+
+  export type NodeSizing = 'mentions' | MetricKey;
+
+  export type NodeColoring = 'character' | 'community' | MetricKey;
+
+  export type GraphView = 'network' | 'matrix';
+
+  export type MatrixOrder = 'name' | 'mentions' | 'community' | 'cluster';
+
+  export type LayoutKind = 'force' | 'circular' | 'radial' | 'hierarchical' | 'arc';
+
+  export interface LayoutSettings {
+    kind: LayoutKind;
+    spacing: number; // force: multiplier on link distance and repulsion
+    order: 'community' | 'mentions'; // circular and arc: order of characters along the line
+    ringSpacing: number; // radial and hierarchical: pixels between rings / levels
+  }
+
+  export interface PathHop {
+    source: string;
+    target: string;
+    weight: number;
+    context?: string; // first context passage for the pair
+  }
+
+  export interface CharacterPath {
+    characters: string[]; // from the start character to the end character
+    hops: PathHop[];
+    totalWeight: number;
+  }
+
+  export type PathMode = 'shortest' | 'strongest';
+
+  export interface FocusSettings {
+    character: string | null; // centre of the ego network, null when focus mode is off
+    hops: number;
+    mode: 'hide' | 'fade'; // what happens to characters outside the neighbourhood
+  }
+
+  export interface NetworkFilters {
+    minMentions: number;
+    minWeight: number; // minimum interaction weight for a link to be drawn
+    maxNodes: number | null; // keep only the top characters, null for no limit
+    rankBy: 'mentions' | MetricKey; // how the top characters are chosen
+    hideIsolated: boolean;
+  }
+
+  // Everything a shared link restores
+  export interface ViewState {
+    bookId: number | null;
+    title: string | null;
+    character: string | null; // highlighted character
+    focus: Pick<FocusSettings, 'hops' | 'mode'> | null; // focus mode around `character`
+    filters: NetworkFilters;
+    layout: LayoutSettings;
+    chapterRange: ChapterRange | null;
+    graphView: GraphView;
+    zoom: ZoomState | null;
+  }
+
+  export interface CharacterPartner {
+    name: string;
+    weight: number;
+    contexts: string[];
+  }
+
+  export interface CharacterDetail {
+    character: Character;
+    importance: number; // 1-5, as shown on the graph
+    mergedNames: string[]; // extracted names folded into this character
+    partners: CharacterPartner[]; // every interaction partner, strongest first
+    metrics?: NodeMetrics;
+  }
+
+  export interface CharacterOverrides {
+    merges: Record<string, string>; // character name -> character it is folded into
+    splits: string[]; // characters kept apart even when their aliases match
+  }
+
+  export interface SelectedBook {
+    id: number;
+    title: string;
+    source?: 'gutenberg' | 'import' | 'upload'; // defaults to a Project Gutenberg book
+  }
+
+  export type TextFormat = 'txt' | 'epub' | 'html';
+
+  export interface DetectedChapter {
+    title: string;
+    wordCount: number;
+  }
+
+  export interface UploadedText {
+    id: number; // negative, so it never collides with a Project Gutenberg id
+    title: string;
+    fileName: string;
+    format: TextFormat;
+    text: string; // normalised, without Gutenberg header and footer
+    wordCount: number;
+    chapters: DetectedChapter[];
+    removedBoilerplate: boolean;
+  }
+
+  export interface SavedAnalysis {
+    bookId: number;
+    title: string;
+    result: AnalysisResult;
+    savedAt: number;
+  }
+
+  export type QueueItemStatus = 'queued' | 'running' | 'complete' | 'error' | 'cancelled';
+
+  export interface QueueItem {
+    id: string;
+    bookId: number;
+    title: string;
+    status: QueueItemStatus;
+    sessionId?: string; // each queued run streams over its own socket session
+    batchIndex?: number;
+    totalBatches?: number;
+    result?: AnalysisResult;
+    completedAt?: number;
+    error?: string;
+  }
+
+  export interface AnalysisRun extends SavedAnalysis {
+    runId: number;
+  }
+
+  export type ChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+  export interface CharacterChange {
+    name: string;
+    kind: ChangeKind;
+    before: number; // mentions in the base run
+    after: number;
+  }
+
+  export interface InteractionChange {
+    source: string;
+    target: string;
+    kind: ChangeKind;
+    before: number; // weight in the base run
+    after: number;
+  }
+
+  export interface AnalysisDiff {
+    characters: CharacterChange[];
+    interactions: InteractionChange[];
+  }
+
   export interface Book {
+    id: number; // Project Gutenberg ebook number
     title: string;
     url: string;
     author: string;
     description: string;
+    subjects: string[];
+    language: string; // ISO 639 code, e.g. "en"
+    downloads: number;
+  }
+
+  export interface CatalogueFilters {
+    language: string | null;
+    subject: string | null;
+    sortBy: 'relevance' | 'downloads' | 'title';
+  }
+
+  export interface BookSearchResult {
+    book: Book;
+    score: number;
+    titleRanges: [number, number][]; // matched words, as [start, end) offsets into the title
+    authorRanges: [number, number][];
   }
\ No newline at end of file
@@ -0,0 +1,179 @@
+import type { AnalysisResult, Character, CharacterOverrides, Interaction } from '../types';
+
+export interface MergedAnalysis {
+  result: AnalysisResult;
+  // Canonical character name -> every raw character folded into it (canonical first)
+  groups: Record<string, string[]>;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Minimal union-find over character indices
+const createDisjointSet = (size: number) => {
+  const parent = Array.from({ length: size }, (_, index) => index);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+  };
+
+  return { find, union };
+};
+
+// Element-wise sum of two per-chapter series
+const addSeries = (a: number[] | undefined, b: number[] | undefined) => {
+  if (!a || !b) return a ?? b;
+  return Array.from({ length: Math.max(a.length, b.length) }, (_, index) => (a[index] ?? 0) + (b[index] ?? 0));
+};
+
+const pickCanonical = (members: Character[], overrides: CharacterOverrides): Character => {
+  // A manual merge target wins, as long as it is not itself merged into something else
+  const manualTarget = members.find(member =>
+    Object.values(overrides.merges).includes(member.name) && !overrides.merges[member.name]
+  );
+  if (manualTarget) return manualTarget;
+
+  return members.reduce((best, member) => (member.mentions > best.mentions ? member : best));
+};
+
+const mergeCharacterGroup = (canonical: Character, members: Character[]): Character => {
+  const seen = new Set([normalizeName(canonical.name)]);
+  const aliases: string[] = [];
+
+  members.forEach(member => {
+    [member.name, ...(member.aliases ?? [])].forEach(alias => {
+      const key = normalizeName(alias);
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        aliases.push(alias);
+      }
+    });
+  });
+
+  const longestDescription = members
+    .map(member => member.description ?? '')
+    .reduce((longest, description) => (description.length > longest.length ? description : longest), '');
+
+  return {
+    ...canonical,
+    mentions: members.reduce((sum, member) => sum + member.mentions, 0),
+    chapterMentions: members.reduce<number[] | undefined>(
+      (series, member) => addSeries(series, member.chapterMentions),
+      undefined
+    ),
+    description: canonical.description || longestDescription,
+    aliases
+  };
+};
+
+/**
+ * Fold characters whose names or aliases overlap into a single character, then apply the
+ * user's manual merges and splits. Interactions are re-pointed at the merged characters
+ * and duplicate pairs have their weights summed.
+ */
+export const mergeAliases = (data: AnalysisResult, overrides: CharacterOverrides): MergedAnalysis => {
+  const characters = data.characters;
+  const splits = new Set(overrides.splits.map(normalizeName));
+  const indexByName = new Map<string, number>();
+  characters.forEach((char, index) => {
+    if (!indexByName.has(normalizeName(char.name))) indexByName.set(normalizeName(char.name), index);
+  });
+
+  const disjointSet = createDisjointSet(characters.length);
+
+  // Alias-aware grouping: characters sharing any name or alias end up together
+  const keyOwners = new Map<string, number>();
+  characters.forEach((char, index) => {
+    if (splits.has(normalizeName(char.name))) return;
+
+    [char.name, ...(char.aliases ?? [])].forEach(alias => {
+      const key = normalizeName(alias);
+      if (!key || splits.has(key)) return;
+
+      const owner = keyOwners.get(key);
+      if (owner === undefined) {
+        keyOwners.set(key, index);
+      } else {
+        disjointSet.union(owner, index);
+      }
+    });
+  });
+
+  // Manual merges always apply, even to split characters
+  Object.entries(overrides.merges).forEach(([name, target]) => {
+    const from = indexByName.get(normalizeName(name));
+    const to = indexByName.get(normalizeName(target));
+    if (from !== undefined && to !== undefined) disjointSet.union(to, from);
+  });
+
+  const membersByRoot = new Map<number, Character[]>();
+  characters.forEach((char, index) => {
+    const root = disjointSet.find(index);
+    membersByRoot.set(root, [...(membersByRoot.get(root) ?? []), char]);
+  });
+
+  const canonicalByName = new Map<string, string>();
+  const groups: Record<string, string[]> = {};
+  const mergedCharacters: Character[] = [];
+
+  membersByRoot.forEach(members => {
+    const canonical = pickCanonical(members, overrides);
+    members.forEach(member => canonicalByName.set(normalizeName(member.name), canonical.name));
+    groups[canonical.name] = [canonical.name, ...members.filter(m => m !== canonical).map(m => m.name)];
+    mergedCharacters.push(mergeCharacterGroup(canonical, members));
+  });
+
+  // Interactions may name a character by an alias; exact names take precedence over aliases
+  membersByRoot.forEach(members => {
+    const canonicalName = canonicalByName.get(normalizeName(members[0].name))!;
+    members.forEach(member => (member.aliases ?? []).forEach(alias => {
+      const key = normalizeName(alias);
+      if (key && !canonicalByName.has(key)) canonicalByName.set(key, canonicalName);
+    }));
+  });
+
+  // Re-point interactions and combine the ones that now connect the same pair
+  const interactionsByPair = new Map<string, Interaction>();
+  data.interactions.forEach(interaction => {
+    const source = canonicalByName.get(normalizeName(interaction.source)) ?? interaction.source;
+    const target = canonicalByName.get(normalizeName(interaction.target)) ?? interaction.target;
+    if (source === target) return;
+
+    const pairKey = [source, target].sort().join('\u0000');
+    const existing = interactionsByPair.get(pairKey);
+    if (existing) {
+      existing.weight += interaction.weight;
+      existing.chapterWeights = addSeries(existing.chapterWeights, interaction.chapterWeights);
+      // Context chapters only stay meaningful while both sides have them
+      existing.contextChapters = existing.contextChapters && interaction.contextChapters
+        ? [...existing.contextChapters, ...interaction.contextChapters]
+        : undefined;
+      existing.contexts = [...existing.contexts, ...(interaction.contexts ?? [])];
+    } else {
+      interactionsByPair.set(pairKey, {
+        ...interaction,
+        source,
+        target,
+        contexts: [...(interaction.contexts ?? [])]
+      });
+    }
+  });
+
+  return {
+    result: {
+      ...data,
+      characters: mergedCharacters,
+      interactions: Array.from(interactionsByPair.values())
+    },
+    groups
+  };
+};
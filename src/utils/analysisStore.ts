@@ -0,0 +1,98 @@
+import type { AnalysisRun, SavedAnalysis } from '../types';
+
+const DB_NAME = 'literary-network-analysis';
+const DB_VERSION = 2;
+const STORE_NAME = 'analyses'; // latest result per book
+const RUNS_STORE_NAME = 'runs'; // every saved result, for diffing runs of the same book
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'bookId' });
+      }
+      if (!db.objectStoreNames.contains(RUNS_STORE_NAME)) {
+        const runs = db.createObjectStore(RUNS_STORE_NAME, { keyPath: 'runId', autoIncrement: true });
+        runs.createIndex('bookId', 'bookId');
+
+        // Results saved before run history existed become each book's first run
+        if (event.oldVersion >= 1) {
+          request.transaction!.objectStore(STORE_NAME).openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            runs.add(cursor.value);
+            cursor.continue();
+          };
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Open a transaction, run a single request against the store and close the connection
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAnalysis = async (analysis: SavedAnalysis): Promise<void> => {
+  await withStore('readwrite', store => store.put(analysis));
+  await withStore('readwrite', store => store.add(analysis), RUNS_STORE_NAME);
+};
+
+export const getAnalysis = (bookId: number): Promise<SavedAnalysis | undefined> =>
+  withStore('readonly', store => store.get(bookId) as IDBRequest<SavedAnalysis | undefined>);
+
+export const listAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const analyses = await withStore('readonly', store => store.getAll() as IDBRequest<SavedAnalysis[]>);
+  return analyses.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const listRuns = async (bookId: number): Promise<AnalysisRun[]> => {
+  const runs = await withStore(
+    'readonly',
+    store => store.index('bookId').getAll(bookId) as IDBRequest<AnalysisRun[]>,
+    RUNS_STORE_NAME
+  );
+  return runs.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Removing a book from the library also drops its run history
+export const deleteAnalysis = async (bookId: number): Promise<void> => {
+  await withStore('readwrite', store => store.delete(bookId));
+  await withStore('readwrite', store => {
+    const request = store.index('bookId').openCursor(bookId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    return request;
+  }, RUNS_STORE_NAME);
+};
@@ -0,0 +1,28 @@
+// Ask the backend to analyze a Project Gutenberg book, streaming results to the given socket session
+export const startAnalysis = async (sessionId: string, bookId: number) => {
+  const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ 
+      sessionId,
+      bookID: bookId.toString(),
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+};
+
+// Ask the backend to analyze text supplied by the user, streaming results the same way as a book
+export const startTextAnalysis = async (sessionId: string, text: string, title: string) => {
+  const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, text, title })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+};
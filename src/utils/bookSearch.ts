@@ -0,0 +1,222 @@
+import type { Book, BookSearchResult, CatalogueFilters } from '../types';
+
+// Messages between useBookSearch and the search worker
+export type BookSearchRequest =
+  | { type: 'index'; books: Book[] }
+  | { type: 'search'; requestId: number; query: string; filters: CatalogueFilters; limit: number };
+
+export interface BookSearchResponse {
+  requestId: number;
+  results: BookSearchResult[];
+  total: number;
+}
+
+interface IndexedBook {
+  book: Book;
+  title: string; // folded
+  titleTokens: string[];
+  authorTokens: string[];
+  subjectTokens: string[];
+}
+
+export interface BookSearchIndex {
+  books: IndexedBook[];
+  vocabulary: string[]; // sorted, for prefix lookups
+  postings: Map<string, number[]>; // token -> indexes into books
+}
+
+// How a query term matched an indexed token; higher is better
+const MatchKind = { Exact: 3, Prefix: 2, Fuzzy: 1 } as const;
+type MatchKind = typeof MatchKind[keyof typeof MatchKind];
+
+const TIER_SCORES = {
+  exactTitle: 1000,
+  titlePrefix: 800,
+  [MatchKind.Exact]: 600,
+  [MatchKind.Prefix]: 400,
+  [MatchKind.Fuzzy]: 200
+};
+
+const FIELD_WEIGHTS = { title: 3, author: 2, subject: 1 };
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Lower-case and strip accents, so "Brontë" and "bronte" index alike
+export const foldText = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string) => foldText(text).match(WORD_PATTERN) ?? [];
+
+// Longer words tolerate more typos; very short ones have to be typed right
+const maxEdits = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Damerau-Levenshtein distance with transpositions, giving up once it exceeds `limit`
+export const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      next.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previousRow = row;
+    row = next;
+  }
+
+  return row[b.length];
+};
+
+export const buildSearchIndex = (books: Book[]): BookSearchIndex => {
+  const postings = new Map<string, number[]>();
+
+  const indexed = books.map((book, index) => {
+    const entry: IndexedBook = {
+      book,
+      title: tokenize(book.title).join(' '),
+      titleTokens: tokenize(book.title),
+      authorTokens: tokenize(book.author),
+      subjectTokens: book.subjects.flatMap(tokenize)
+    };
+
+    new Set([...entry.titleTokens, ...entry.authorTokens, ...entry.subjectTokens]).forEach(token => {
+      const list = postings.get(token);
+      if (list) list.push(index);
+      else postings.set(token, [index]);
+    });
+    return entry;
+  });
+
+  return { books: indexed, vocabulary: [...postings.keys()].sort(), postings };
+};
+
+// Every indexed token a query term can stand for, with the best way it matched
+const expandTerm = (index: BookSearchIndex, term: string): Map<string, MatchKind> => {
+  const matches = new Map<string, MatchKind>();
+
+  // Prefixes sit next to each other in the sorted vocabulary
+  let low = 0;
+  let high = index.vocabulary.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index.vocabulary[middle] < term) low = middle + 1;
+    else high = middle;
+  }
+  for (let i = low; i < index.vocabulary.length && index.vocabulary[i].startsWith(term); i++) {
+    const token = index.vocabulary[i];
+    matches.set(token, token === term ? MatchKind.Exact : MatchKind.Prefix);
+  }
+
+  const limit = maxEdits(term);
+  if (limit > 0) {
+    index.vocabulary.forEach(token => {
+      if (!matches.has(token) && editDistance(term, token, limit) <= limit) {
+        matches.set(token, MatchKind.Fuzzy);
+      }
+    });
+  }
+
+  return matches;
+};
+
+// Best match of a term among a field's tokens, or 0
+const bestKind = (tokens: string[], matches: Map<string, MatchKind>) =>
+  tokens.reduce((best, token) => Math.max(best, matches.get(token) ?? 0), 0);
+
+// Character ranges of words in `text` that matched the query, for highlighting
+const matchRanges = (text: string, matches: Map<string, MatchKind>[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const folded = foldText(word[0]);
+    if (matches.some(termMatches => termMatches.has(folded))) {
+      ranges.push([word.index, word.index + word[0].length]);
+    }
+  }
+  return ranges;
+};
+
+const matchesFilters = (book: Book, filters: CatalogueFilters) =>
+  (!filters.language || book.language === filters.language) &&
+  (!filters.subject || book.subjects.includes(filters.subject));
+
+const COMPARATORS: Record<CatalogueFilters['sortBy'], (a: BookSearchResult, b: BookSearchResult) => number> = {
+  relevance: (a, b) => b.score - a.score || b.book.downloads - a.book.downloads,
+  downloads: (a, b) => b.book.downloads - a.book.downloads,
+  title: (a, b) => a.book.title.localeCompare(b.book.title)
+};
+
+/**
+ * Rank the books matching every query term in their title, author or subjects, within the facets.
+ * An exact title ranks first, then a title starting with the query, then books where every term
+ * is a whole word, then prefixes, then books that only match with typos. A number searches ids.
+ */
+export const searchBooks = (
+  index: BookSearchIndex,
+  query: string,
+  filters: CatalogueFilters,
+  limit: number
+): Omit<BookSearchResponse, 'requestId'> => {
+  const trimmed = query.trim();
+  const terms = [...new Set(tokenize(trimmed))];
+  const results: BookSearchResult[] = [];
+
+  if (/^\d+$/.test(trimmed)) {
+    index.books.forEach(({ book }) => {
+      if (!matchesFilters(book, filters) || !book.id.toString().includes(trimmed)) return;
+      results.push({ book, score: book.id.toString() === trimmed ? TIER_SCORES.exactTitle : 100, titleRanges: [], authorRanges: [] });
+    });
+  } else if (terms.length === 0) {
+    index.books.forEach(({ book }) => {
+      if (matchesFilters(book, filters)) results.push({ book, score: 0, titleRanges: [], authorRanges: [] });
+    });
+  } else {
+    const termMatches = terms.map(term => expandTerm(index, term));
+
+    // Books containing some form of every term, starting from the rarest term
+    const termBooks = termMatches
+      .map(matches => new Set([...matches.keys()].flatMap(token => index.postings.get(token)!)))
+      .sort((a, b) => a.size - b.size);
+    const candidates = [...termBooks[0]].filter(bookIndex => termBooks.every(books => books.has(bookIndex)));
+
+    const foldedQuery = tokenize(trimmed).join(' ');
+    candidates.forEach(bookIndex => {
+      const entry = index.books[bookIndex];
+      if (!matchesFilters(entry.book, filters)) return;
+
+      let weakest: number = MatchKind.Exact;
+      let fieldScore = 0;
+      termMatches.forEach(matches => {
+        const title = bestKind(entry.titleTokens, matches);
+        const author = bestKind(entry.authorTokens, matches);
+        const subject = bestKind(entry.subjectTokens, matches);
+        weakest = Math.min(weakest, Math.max(title, author, subject));
+        fieldScore += title * FIELD_WEIGHTS.title + author * FIELD_WEIGHTS.author + subject * FIELD_WEIGHTS.subject;
+      });
+
+      const tier = entry.title === foldedQuery
+        ? TIER_SCORES.exactTitle
+        : entry.title.startsWith(foldedQuery)
+          ? TIER_SCORES.titlePrefix
+          : TIER_SCORES[weakest as MatchKind];
+
+      results.push({
+        book: entry.book,
+        score: tier + fieldScore,
+        titleRanges: matchRanges(entry.book.title, termMatches),
+        authorRanges: matchRanges(entry.book.author, termMatches)
+      });
+    });
+  }
+
+  return { results: results.sort(COMPARATORS[filters.sortBy]).slice(0, limit), total: results.length };
+};
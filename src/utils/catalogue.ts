@@ -0,0 +1,84 @@
+import type { Book, CatalogueFilters } from '../types';
+
+// One row of a local catalogue. Only id and title are required, so the bare id/title list still loads
+interface CatalogueEntry {
+  id: number;
+  title: string;
+  author?: string;
+  authors?: string[];
+  description?: string;
+  subjects?: string[] | string; // "; "-separated in Gutenberg's CSV export
+  language?: string;
+  downloads?: number;
+  url?: string;
+}
+
+export interface CatalogueFacet {
+  value: string;
+  count: number;
+}
+
+export const DEFAULT_CATALOGUE_FILTERS: CatalogueFilters = {
+  language: null,
+  subject: null,
+  sortBy: 'relevance'
+};
+
+const MAX_SUBJECT_FACETS = 60;
+
+// Richest catalogue first; either file may be missing from a checkout, so they are globbed rather than imported
+const catalogueLoaders = import.meta.glob<CatalogueEntry[]>(
+  ['../assets/books_catalogue.json', '../assets/books_id_title.json'],
+  { import: 'default' }
+);
+const CATALOGUE_FILES = ['../assets/books_catalogue.json', '../assets/books_id_title.json'];
+
+export const getGutenbergUrl = (id: number) => `https://www.gutenberg.org/ebooks/${id}`;
+
+const toBook = (entry: CatalogueEntry): Book => ({
+  id: Number(entry.id),
+  title: entry.title,
+  author: entry.author ?? entry.authors?.join('; ') ?? '',
+  description: entry.description ?? '',
+  subjects: typeof entry.subjects === 'string'
+    ? entry.subjects.split(';').map(subject => subject.trim()).filter(Boolean)
+    : entry.subjects ?? [],
+  language: entry.language ?? '',
+  downloads: entry.downloads ?? 0,
+  url: entry.url ?? getGutenbergUrl(Number(entry.id))
+});
+
+export const loadCatalogue = async (): Promise<Book[]> => {
+  const file = CATALOGUE_FILES.find(path => catalogueLoaders[path]);
+  if (!file) {
+    throw new Error('No book catalogue found in src/assets');
+  }
+
+  const entries = await catalogueLoaders[file]();
+  return entries
+    .filter(entry => Number.isInteger(Number(entry.id)) && typeof entry.title === 'string')
+    .map(toBook);
+};
+
+const countValues = (values: string[]): CatalogueFacet[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+};
+
+// Languages and the most common subjects, with how many books carry each
+export const getCatalogueFacets = (books: Book[]) => ({
+  languages: countValues(books.map(book => book.language).filter(Boolean)),
+  subjects: countValues(books.flatMap(book => book.subjects)).slice(0, MAX_SUBJECT_FACETS)
+});
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// e.g. "en" -> "English"; unknown codes are shown as they are
+export const getLanguageName = (code: string) => {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
@@ -0,0 +1,122 @@
+import type { AnalysisResult, ChapterInfo, ChapterRange, Character, Interaction, StreamingUpdate } from '../types';
+
+const pairKey = (interaction: Interaction) => [interaction.source, interaction.target].sort().join('\u0000');
+
+const sumRange = (values: number[], range: ChapterRange) =>
+  values.slice(range.start, range.end + 1).reduce((sum, value) => sum + value, 0);
+
+const describeBatch = (update: StreamingUpdate, index: number): ChapterInfo => {
+  const range = update.chapterRange;
+  if (!range) return { index, title: `Batch ${index + 1}` };
+  return {
+    index,
+    title: range.start === range.end ? `Chapter ${range.start}` : `Chapters ${range.start}–${range.end}`,
+    range
+  };
+};
+
+// Pad a per-chapter series to the current chapter count, adding value at one position
+const withChapterValue = (series: number[] | undefined, length: number, chapter: number, value: number) => {
+  const next = Array.from({ length }, (_, index) => series?.[index] ?? 0);
+  if (value > 0) next[chapter] += value;
+  return next;
+};
+
+/**
+ * Turn the cumulative results streamed batch by batch into results that know which
+ * chapter (or batch) each mention, interaction and context came from. Results the
+ * backend already annotated with chapters are passed through untouched; otherwise
+ * every batch becomes one slice and its share is the difference from the previous batch.
+ */
+export const withChapterSlices = (updates: StreamingUpdate[]): AnalysisResult[] => {
+  const slices: AnalysisResult[] = [];
+  const chapters: ChapterInfo[] = [];
+  let previous: AnalysisResult | null = null;
+
+  updates.forEach(update => {
+    const data = update.data;
+    if (!data) return;
+    if (data.chapters) {
+      slices.push(data);
+      previous = data;
+      return;
+    }
+
+    // The final result usually repeats the last batch, so only batches open a new slice
+    if (update.type === 'batch_complete' || chapters.length === 0) {
+      chapters.push(describeBatch(update, chapters.length));
+    }
+    const chapter = chapters.length - 1;
+
+    const previousCharacters = new Map<string, Character>(
+      (previous?.characters ?? []).map(char => [char.name, char])
+    );
+    const previousInteractions = new Map<string, Interaction>(
+      (previous?.interactions ?? []).map(interaction => [pairKey(interaction), interaction])
+    );
+
+    const characters = data.characters.map(char => {
+      const before = previousCharacters.get(char.name);
+      return {
+        ...char,
+        chapterMentions: withChapterValue(
+          before?.chapterMentions,
+          chapters.length,
+          chapter,
+          char.mentions - (before?.mentions ?? 0)
+        )
+      };
+    });
+
+    const interactions = data.interactions.map(interaction => {
+      const before = previousInteractions.get(pairKey(interaction));
+      const contexts = interaction.contexts ?? [];
+      const knownContexts = before?.contextChapters ?? [];
+      return {
+        ...interaction,
+        chapterWeights: withChapterValue(
+          before?.chapterWeights,
+          chapters.length,
+          chapter,
+          interaction.weight - (before?.weight ?? 0)
+        ),
+        // Contexts are appended as the analysis goes, so anything past the old list is new
+        contextChapters: contexts.map((_, index) => knownContexts[index] ?? chapter)
+      };
+    });
+
+    const slice: AnalysisResult = { ...data, characters, interactions, chapters: [...chapters] };
+    slices.push(slice);
+    previous = slice;
+  });
+
+  return slices;
+};
+
+// Keep only what happened inside the chosen chapters; unannotated entries are kept as they are
+export const sliceChapters = (data: AnalysisResult, range: ChapterRange): AnalysisResult => {
+  if (!data.chapters) return data;
+
+  const characters = data.characters
+    .map(char => (char.chapterMentions ? { ...char, mentions: sumRange(char.chapterMentions, range) } : char))
+    .filter(char => char.mentions > 0);
+
+  const interactions = data.interactions
+    .map(interaction => {
+      if (!interaction.chapterWeights) return interaction;
+
+      const inRange = (index: number) => {
+        const chapter = interaction.contextChapters?.[index];
+        return chapter === undefined || (chapter >= range.start && chapter <= range.end);
+      };
+      return {
+        ...interaction,
+        weight: sumRange(interaction.chapterWeights, range),
+        contexts: interaction.contexts.filter((_, index) => inRange(index)),
+        contextChapters: interaction.contextChapters?.filter((_, index) => inRange(index))
+      };
+    })
+    .filter(interaction => interaction.weight > 0);
+
+  return { ...data, characters, interactions };
+};
@@ -0,0 +1,21 @@
+import * as d3 from 'd3';
+
+// Enhanced color palette with many unique colors
+export const CHARACTER_PALETTE = [
+  '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57',
+  '#ff9ff3', '#54a0ff', '#5f27cd', '#00d2d3', '#ff9f43',
+  '#10ac84', '#ee5253', '#0abde3', '#3742fa', '#2ed573',
+  '#ff5722', '#9c27b0', '#673ab7', '#3f51b5', '#2196f3',
+  '#03a9f4', '#00bcd4', '#009688', '#4caf50', '#8bc34a',
+  '#cddc39', '#ffeb3b', '#ffc107', '#ff9800', '#ff5722',
+  '#795548', '#607d8b', '#e91e63', '#f44336', '#ff4081',
+  '#c51162', '#aa00ff', '#6200ea', '#3d5afe', '#2979ff',
+  '#00b0ff', '#00e5ff', '#1de9b6', '#00e676', '#76ff03',
+  '#c6ff00', '#ffea00', '#ffc400', '#ff9100', '#ff3d00'
+];
+
+// Well-separated categorical colours; communities past the first 20 wrap around
+const COMMUNITY_PALETTE = [...d3.schemeTableau10, ...d3.schemeSet3];
+
+export const getCommunityColor = (community: number) =>
+  COMMUNITY_PALETTE[community % COMMUNITY_PALETTE.length];
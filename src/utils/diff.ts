@@ -0,0 +1,80 @@
+import type { AnalysisDiff, AnalysisResult, ChangeKind, Interaction } from '../types';
+
+export const DIFF_COLORS: Record<Exclude<ChangeKind, 'unchanged'>, string> = {
+  added: '#4caf50',
+  removed: '#f44336',
+  changed: '#ffb300'
+};
+
+export const getPairKey = (source: string, target: string) => [source, target].sort().join('\u0000');
+
+const classify = (before: number | undefined, after: number | undefined): ChangeKind => {
+  if (before === undefined) return 'added';
+  if (after === undefined) return 'removed';
+  return before === after ? 'unchanged' : 'changed';
+};
+
+// Most significant changes first: removals and additions, then by size of the change
+const KIND_ORDER: Record<ChangeKind, number> = { removed: 0, added: 1, changed: 2, unchanged: 3 };
+const byImpact = <T extends { kind: ChangeKind; before: number; after: number }>(a: T, b: T) =>
+  KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || Math.abs(b.after - b.before) - Math.abs(a.after - a.before);
+
+/**
+ * Compare two results for the same book. Characters are matched by name and interactions
+ * by their unordered pair of names; a missing side counts as 0 in `before` / `after`.
+ */
+export const diffAnalyses = (base: AnalysisResult, current: AnalysisResult): AnalysisDiff => {
+  const baseMentions = new Map(base.characters.map(char => [char.name, char.mentions]));
+  const currentMentions = new Map(current.characters.map(char => [char.name, char.mentions]));
+  const names = new Set([...baseMentions.keys(), ...currentMentions.keys()]);
+
+  const characters = Array.from(names).map(name => ({
+    name,
+    kind: classify(baseMentions.get(name), currentMentions.get(name)),
+    before: baseMentions.get(name) ?? 0,
+    after: currentMentions.get(name) ?? 0
+  })).sort(byImpact);
+
+  const collectWeights = (interactions: Interaction[]) => {
+    const weights = new Map<string, { source: string; target: string; weight: number }>();
+    interactions.forEach(({ source, target, weight }) => {
+      const key = getPairKey(source, target);
+      const existing = weights.get(key);
+      weights.set(key, { source, target, weight: (existing?.weight ?? 0) + weight });
+    });
+    return weights;
+  };
+  const baseWeights = collectWeights(base.interactions);
+  const currentWeights = collectWeights(current.interactions);
+  const pairs = new Set([...baseWeights.keys(), ...currentWeights.keys()]);
+
+  const interactions = Array.from(pairs).map(key => {
+    const before = baseWeights.get(key);
+    const after = currentWeights.get(key);
+    const { source, target } = (after ?? before)!;
+    return {
+      source,
+      target,
+      kind: classify(before?.weight, after?.weight),
+      before: before?.weight ?? 0,
+      after: after?.weight ?? 0
+    };
+  }).sort(byImpact);
+
+  return { characters, interactions };
+};
+
+// The current result plus everything the base run had that is now gone, so removals can be drawn
+export const withRemovedItems = (current: AnalysisResult, base: AnalysisResult): AnalysisResult => {
+  const currentNames = new Set(current.characters.map(char => char.name));
+  const currentPairs = new Set(current.interactions.map(({ source, target }) => getPairKey(source, target)));
+
+  return {
+    ...current,
+    characters: [...current.characters, ...base.characters.filter(char => !currentNames.has(char.name))],
+    interactions: [
+      ...current.interactions,
+      ...base.interactions.filter(({ source, target }) => !currentPairs.has(getPairKey(source, target)))
+    ]
+  };
+};
@@ -0,0 +1,149 @@
+import type { AnalysisResult, NetworkLink, NetworkNode } from '../types';
+import { getEndpointName } from './network';
+
+/*
+ * List-valued fields (aliases, contexts) are written as JSON arrays in every format,
+ * so they survive a round trip through Gephi, Cytoscape or pandas without a custom separator.
+ */
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number)[][]) =>
+  [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+
+export const toGraphML = (nodes: NetworkNode[], links: NetworkLink[], title: string): string => {
+  const nodeXml = nodes.map(node => [
+    `    <node id="${escapeXml(node.id)}">`,
+    `      <data key="label">${escapeXml(node.name)}</data>`,
+    `      <data key="mentions">${node.mentions}</data>`,
+    `      <data key="importance">${node.importance}</data>`,
+    `      <data key="description">${escapeXml(node.description ?? '')}</data>`,
+    `      <data key="aliases">${escapeXml(JSON.stringify(node.aliases ?? []))}</data>`,
+    '    </node>'
+  ].join('\n'));
+
+  const edgeXml = links.map((link, index) => [
+    `    <edge id="e${index}" source="${escapeXml(getEndpointName(link.source))}" target="${escapeXml(getEndpointName(link.target))}">`,
+    `      <data key="weight">${link.weight}</data>`,
+    `      <data key="contexts">${escapeXml(JSON.stringify(link.contexts ?? []))}</data>`,
+    '    </edge>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="mentions" for="node" attr.name="mentions" attr.type="int"/>',
+    '  <key id="importance" for="node" attr.name="importance" attr.type="int"/>',
+    '  <key id="description" for="node" attr.name="description" attr.type="string"/>',
+    '  <key id="aliases" for="node" attr.name="aliases" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="contexts" for="edge" attr.name="contexts" attr.type="string"/>',
+    `  <graph id="${escapeXml(title)}" edgedefault="undirected">`,
+    ...nodeXml,
+    ...edgeXml,
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+};
+
+export const toGEXF = (nodes: NetworkNode[], links: NetworkLink[], title: string): string => {
+  const nodeXml = nodes.map(node => [
+    `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}">`,
+    '        <attvalues>',
+    `          <attvalue for="mentions" value="${node.mentions}"/>`,
+    `          <attvalue for="importance" value="${node.importance}"/>`,
+    `          <attvalue for="description" value="${escapeXml(node.description ?? '')}"/>`,
+    `          <attvalue for="aliases" value="${escapeXml(JSON.stringify(node.aliases ?? []))}"/>`,
+    '        </attvalues>',
+    '      </node>'
+  ].join('\n'));
+
+  const edgeXml = links.map((link, index) => [
+    `      <edge id="e${index}" source="${escapeXml(getEndpointName(link.source))}" target="${escapeXml(getEndpointName(link.target))}" weight="${link.weight}">`,
+    '        <attvalues>',
+    `          <attvalue for="contexts" value="${escapeXml(JSON.stringify(link.contexts ?? []))}"/>`,
+    '        </attvalues>',
+    '      </edge>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <meta>',
+    `    <description>${escapeXml(title)}</description>`,
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="undirected">',
+    '    <attributes class="node">',
+    '      <attribute id="mentions" title="mentions" type="integer"/>',
+    '      <attribute id="importance" title="importance" type="integer"/>',
+    '      <attribute id="description" title="description" type="string"/>',
+    '      <attribute id="aliases" title="aliases" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="contexts" title="contexts" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...nodeXml,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeXml,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>'
+  ].join('\n');
+};
+
+export const toNodesCsv = (nodes: NetworkNode[]): string =>
+  toCsv(
+    ['id', 'name', 'mentions', 'importance', 'description', 'aliases'],
+    nodes.map(node => [
+      node.id,
+      node.name,
+      node.mentions,
+      node.importance,
+      node.description ?? '',
+      JSON.stringify(node.aliases ?? [])
+    ])
+  );
+
+export const toEdgesCsv = (links: NetworkLink[]): string =>
+  toCsv(
+    ['source', 'target', 'weight', 'contexts'],
+    links.map(link => [
+      getEndpointName(link.source),
+      getEndpointName(link.target),
+      link.weight,
+      JSON.stringify(link.contexts ?? [])
+    ])
+  );
+
+export const toAnalysisJson = (result: AnalysisResult): string => JSON.stringify(result, null, 2);
+
+export const toFileBaseName = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'character-network';
+
+// Some browsers start reading the blob well after the click, so keep it alive for a while
+const REVOKE_DELAY_MS = 10000;
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
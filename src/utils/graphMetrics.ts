@@ -0,0 +1,327 @@
+import type { MetricKey, NetworkLink, NetworkNode, NetworkSummary, NodeMetrics } from '../types';
+import { getEndpointName } from './network';
+
+export const METRIC_LABELS: Record<MetricKey, { label: string; short: string }> = {
+  degree: { label: 'Degree', short: 'Deg' },
+  weightedDegree: { label: 'Weighted degree', short: 'W.Deg' },
+  betweenness: { label: 'Betweenness centrality', short: 'Betw' },
+  closeness: { label: 'Closeness centrality', short: 'Close' },
+  eigenvector: { label: 'Eigenvector centrality', short: 'Eigen' },
+  clustering: { label: 'Clustering coefficient', short: 'Clust' }
+};
+
+export const METRIC_KEYS = Object.keys(METRIC_LABELS) as MetricKey[];
+
+type Adjacency = Map<string, Map<string, number>>;
+
+// Undirected weighted adjacency; repeated pairs have their weights summed
+const buildAdjacency = (nodes: NetworkNode[], links: NetworkLink[]): Adjacency => {
+  const adjacency: Adjacency = new Map(nodes.map(node => [node.id, new Map()]));
+
+  links.forEach(link => {
+    const source = getEndpointName(link.source);
+    const target = getEndpointName(link.target);
+    const sourceNeighbors = adjacency.get(source);
+    const targetNeighbors = adjacency.get(target);
+    if (!sourceNeighbors || !targetNeighbors || source === target) return;
+
+    sourceNeighbors.set(target, (sourceNeighbors.get(target) || 0) + link.weight);
+    targetNeighbors.set(source, (targetNeighbors.get(source) || 0) + link.weight);
+  });
+
+  return adjacency;
+};
+
+const bfsDistances = (adjacency: Adjacency, start: string) => {
+  const distances = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    adjacency.get(current)!.forEach((_, neighbor) => {
+      if (!distances.has(neighbor)) {
+        distances.set(neighbor, distances.get(current)! + 1);
+        queue.push(neighbor);
+      }
+    });
+  }
+
+  return distances;
+};
+
+// Brandes' algorithm on the unweighted graph, normalised to [0, 1]
+const computeBetweenness = (adjacency: Adjacency) => {
+  const ids = Array.from(adjacency.keys());
+  const betweenness = new Map(ids.map(id => [id, 0]));
+
+  ids.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const pathCounts = new Map(ids.map(id => [id, 0]));
+    const distances = new Map<string, number>([[source, 0]]);
+    pathCounts.set(source, 1);
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      stack.push(current);
+      adjacency.get(current)!.forEach((_, neighbor) => {
+        if (!distances.has(neighbor)) {
+          distances.set(neighbor, distances.get(current)! + 1);
+          queue.push(neighbor);
+        }
+        if (distances.get(neighbor) === distances.get(current)! + 1) {
+          pathCounts.set(neighbor, pathCounts.get(neighbor)! + pathCounts.get(current)!);
+          predecessors.get(neighbor)!.push(current);
+        }
+      });
+    }
+
+    const dependency = new Map(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      predecessors.get(current)!.forEach(predecessor => {
+        const share = (pathCounts.get(predecessor)! / pathCounts.get(current)!) * (1 + dependency.get(current)!);
+        dependency.set(predecessor, dependency.get(predecessor)! + share);
+      });
+      if (current !== source) {
+        betweenness.set(current, betweenness.get(current)! + dependency.get(current)!);
+      }
+    }
+  });
+
+  // Each undirected path was counted from both ends
+  const n = ids.length;
+  const normalizer = n > 2 ? ((n - 1) * (n - 2)) : 1;
+  ids.forEach(id => betweenness.set(id, betweenness.get(id)! / normalizer));
+
+  return betweenness;
+};
+
+// Wasserman-Faust closeness, which stays meaningful on disconnected graphs
+const computeCloseness = (adjacency: Adjacency) => {
+  const n = adjacency.size;
+  const closeness = new Map<string, number>();
+
+  adjacency.forEach((_, id) => {
+    const distances = bfsDistances(adjacency, id);
+    const reachable = distances.size - 1;
+    const total = Array.from(distances.values()).reduce((sum, distance) => sum + distance, 0);
+    closeness.set(id, total > 0 && n > 1 ? (reachable / (n - 1)) * (reachable / total) : 0);
+  });
+
+  return closeness;
+};
+
+// Weighted power iteration on (A + I) to avoid oscillation on bipartite graphs, scaled so the max is 1
+const computeEigenvector = (adjacency: Adjacency) => {
+  const ids = Array.from(adjacency.keys());
+  let scores = new Map(ids.map(id => [id, 1]));
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = new Map<string, number>();
+    ids.forEach(id => {
+      let score = scores.get(id)!;
+      adjacency.get(id)!.forEach((weight, neighbor) => {
+        score += weight * scores.get(neighbor)!;
+      });
+      next.set(id, score);
+    });
+
+    const max = Math.max(...next.values(), 0);
+    if (max === 0) break;
+    next.forEach((score, id) => next.set(id, score / max));
+
+    const delta = ids.reduce((sum, id) => sum + Math.abs(next.get(id)! - scores.get(id)!), 0);
+    scores = next;
+    if (delta < 1e-6) break;
+  }
+
+  return scores;
+};
+
+const computeClustering = (adjacency: Adjacency) => {
+  const clustering = new Map<string, number>();
+
+  adjacency.forEach((neighbors, id) => {
+    const neighborIds = Array.from(neighbors.keys());
+    const k = neighborIds.length;
+    if (k < 2) {
+      clustering.set(id, 0);
+      return;
+    }
+
+    let triangles = 0;
+    for (let i = 0; i < k; i++) {
+      for (let j = i + 1; j < k; j++) {
+        if (adjacency.get(neighborIds[i])!.has(neighborIds[j])) triangles++;
+      }
+    }
+    clustering.set(id, triangles / ((k * (k - 1)) / 2));
+  });
+
+  return clustering;
+};
+
+/**
+ * Louvain community detection: greedily move nodes between communities while modularity
+ * improves, then collapse each community into a single node and repeat on the smaller graph.
+ * Communities are numbered by size, largest first.
+ */
+const detectCommunities = (adjacency: Adjacency): Map<string, number> => {
+  const ids = Array.from(adjacency.keys());
+  const indexById = new Map(ids.map((id, index) => [id, index]));
+
+  // Level graph: neighbours[i].get(j) is the edge weight; self-loops hold twice the internal weight
+  let neighbours: Map<number, number>[] = ids.map(id => {
+    const row = new Map<number, number>();
+    adjacency.get(id)!.forEach((weight, neighbor) => row.set(indexById.get(neighbor)!, weight));
+    return row;
+  });
+  let membership = ids.map((_, index) => index);
+
+  for (let level = 0; level < 20; level++) {
+    const size = neighbours.length;
+    const strength = neighbours.map(row => Array.from(row.values()).reduce((sum, w) => sum + w, 0));
+    const totalWeight = strength.reduce((sum, s) => sum + s, 0);
+    if (totalWeight === 0) break;
+
+    const community = Array.from({ length: size }, (_, index) => index);
+    const communityStrength = [...strength];
+    let movedAny = false;
+    let improved = true;
+
+    for (let pass = 0; improved && pass < 50; pass++) {
+      improved = false;
+
+      for (let node = 0; node < size; node++) {
+        const current = community[node];
+        const weightToCommunity = new Map<number, number>();
+        neighbours[node].forEach((weight, neighbor) => {
+          if (neighbor === node) return;
+          const c = community[neighbor];
+          weightToCommunity.set(c, (weightToCommunity.get(c) || 0) + weight);
+        });
+
+        communityStrength[current] -= strength[node];
+        const gain = (c: number) =>
+          (weightToCommunity.get(c) || 0) - (communityStrength[c] * strength[node]) / totalWeight;
+
+        let best = current;
+        let bestGain = gain(current);
+        weightToCommunity.forEach((_, c) => {
+          const candidateGain = gain(c);
+          if (candidateGain > bestGain + 1e-12) {
+            best = c;
+            bestGain = candidateGain;
+          }
+        });
+
+        communityStrength[best] += strength[node];
+        if (best !== current) {
+          community[node] = best;
+          improved = true;
+          movedAny = true;
+        }
+      }
+    }
+
+    if (!movedAny) break;
+
+    // Collapse communities into the nodes of the next level
+    const renumber = new Map<number, number>();
+    community.forEach(c => {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    });
+
+    const aggregated: Map<number, number>[] = Array.from({ length: renumber.size }, () => new Map());
+    neighbours.forEach((row, node) => {
+      const from = renumber.get(community[node])!;
+      row.forEach((weight, neighbor) => {
+        const to = renumber.get(community[neighbor])!;
+        aggregated[from].set(to, (aggregated[from].get(to) || 0) + weight);
+      });
+    });
+
+    membership = membership.map(levelNode => renumber.get(community[levelNode])!);
+    neighbours = aggregated;
+  }
+
+  // Number communities by size so colours and legends stay stable between updates
+  const sizes = new Map<number, number>();
+  membership.forEach(c => sizes.set(c, (sizes.get(c) || 0) + 1));
+  const firstMember = new Map<number, string>();
+  membership.forEach((c, index) => {
+    if (!firstMember.has(c)) firstMember.set(c, ids[index]);
+  });
+
+  const ordered = Array.from(sizes.keys()).sort((a, b) =>
+    sizes.get(b)! - sizes.get(a)! || firstMember.get(a)!.localeCompare(firstMember.get(b)!)
+  );
+  const rank = new Map(ordered.map((c, index) => [c, index]));
+
+  return new Map(ids.map((id, index) => [id, rank.get(membership[index])!]));
+};
+
+export const computeGraphMetrics = (nodes: NetworkNode[], links: NetworkLink[]): Record<string, NodeMetrics> => {
+  const adjacency = buildAdjacency(nodes, links);
+  const betweenness = computeBetweenness(adjacency);
+  const closeness = computeCloseness(adjacency);
+  const eigenvector = computeEigenvector(adjacency);
+  const clustering = computeClustering(adjacency);
+  const communities = detectCommunities(adjacency);
+
+  const metrics: Record<string, NodeMetrics> = {};
+  adjacency.forEach((neighbors, id) => {
+    metrics[id] = {
+      degree: neighbors.size,
+      weightedDegree: Array.from(neighbors.values()).reduce((sum, weight) => sum + weight, 0),
+      betweenness: betweenness.get(id) ?? 0,
+      closeness: closeness.get(id) ?? 0,
+      eigenvector: eigenvector.get(id) ?? 0,
+      clustering: clustering.get(id) ?? 0,
+      community: communities.get(id) ?? 0
+    };
+  });
+
+  return metrics;
+};
+
+/**
+ * Whole-graph figures used to compare two networks. The top-3 share is the fraction of all
+ * interaction weight on links that touch at least one of the three highest weighted-degree characters.
+ */
+export const summarizeNetwork = (
+  nodes: NetworkNode[],
+  links: NetworkLink[],
+  metrics: Record<string, NodeMetrics>
+): NetworkSummary => {
+  const nodeCount = nodes.length;
+  const linkCount = links.length;
+  const degrees = nodes.map(node => metrics[node.id]?.degree ?? 0);
+
+  const topCharacters = [...nodes]
+    .sort((a, b) => (metrics[b.id]?.weightedDegree ?? 0) - (metrics[a.id]?.weightedDegree ?? 0))
+    .slice(0, 3)
+    .map(node => node.id);
+  const totalWeight = links.reduce((sum, link) => sum + link.weight, 0);
+  const topWeight = links
+    .filter(link =>
+      topCharacters.includes(getEndpointName(link.source)) || topCharacters.includes(getEndpointName(link.target))
+    )
+    .reduce((sum, link) => sum + link.weight, 0);
+
+  const degreeHistogram = Array.from({ length: Math.max(0, ...degrees) + 1 }, () => 0);
+  degrees.forEach(degree => degreeHistogram[degree]++);
+
+  return {
+    nodeCount,
+    linkCount,
+    density: nodeCount > 1 ? (2 * linkCount) / (nodeCount * (nodeCount - 1)) : 0,
+    averageDegree: nodeCount > 0 ? (2 * linkCount) / nodeCount : 0,
+    communityCount: new Set(nodes.map(node => metrics[node.id]?.community ?? 0)).size,
+    topCharacters,
+    topWeightShare: totalWeight > 0 ? topWeight / totalWeight : 0,
+    degreeHistogram
+  };
+};
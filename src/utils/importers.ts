@@ -0,0 +1,434 @@
+import type { AnalysisResult } from '../types';
+
+export type ImportFormat = 'json' | 'graphml' | 'gexf' | 'csv';
+
+export interface ImportOutcome {
+  format: ImportFormat | null;
+  result: AnalysisResult | null;
+  errors: string[];
+  warnings: string[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Check an unknown value against the AnalysisResult shape in src/types and report every
+ * problem with its field path, e.g. `characters[3].mentions: expected a number, got string`.
+ */
+export const validateAnalysisResult = (value: unknown): Omit<ImportOutcome, 'format'> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { result: null, errors: [`root: expected an object, got ${describe(value)}`], warnings };
+  }
+
+  const root = value as RawRecord;
+  const expectArray = (field: string) => {
+    if (!Array.isArray(root[field])) {
+      errors.push(`${field}: expected an array, got ${describe(root[field])}`);
+      return [];
+    }
+    return root[field] as unknown[];
+  };
+
+  const checkStringArray = (path: string, items: unknown, required: boolean) => {
+    if (items === undefined && !required) return;
+    if (!Array.isArray(items)) {
+      errors.push(`${path}: expected an array of strings, got ${describe(items)}`);
+      return;
+    }
+    items.forEach((item, index) => {
+      if (typeof item !== 'string') errors.push(`${path}[${index}]: expected a string, got ${describe(item)}`);
+    });
+  };
+
+  const checkNumberArray = (path: string, items: unknown) => {
+    if (items === undefined) return;
+    if (!Array.isArray(items)) {
+      errors.push(`${path}: expected an array of numbers, got ${describe(items)}`);
+      return;
+    }
+    items.forEach((item, index) => {
+      if (typeof item !== 'number' || !Number.isFinite(item)) {
+        errors.push(`${path}[${index}]: expected a number, got ${describe(item)}`);
+      }
+    });
+  };
+
+  const characters = expectArray('characters');
+  const interactions = expectArray('interactions');
+  const names = new Set<string>();
+
+  characters.forEach((raw, index) => {
+    const path = `characters[${index}]`;
+    if (typeof raw !== 'object' || raw === null) {
+      errors.push(`${path}: expected an object, got ${describe(raw)}`);
+      return;
+    }
+    const char = raw as RawRecord;
+
+    if (typeof char.name !== 'string' || char.name.trim() === '') {
+      errors.push(`${path}.name: expected a non-empty string, got ${describe(char.name)}`);
+    } else if (names.has(char.name)) {
+      warnings.push(`${path}.name: "${char.name}" appears more than once`);
+    } else {
+      names.add(char.name);
+    }
+    if (typeof char.mentions !== 'number' || !Number.isFinite(char.mentions) || char.mentions < 0) {
+      errors.push(`${path}.mentions: expected a non-negative number, got ${describe(char.mentions)}`);
+    }
+    if (typeof char.description !== 'string') {
+      errors.push(`${path}.description: expected a string, got ${describe(char.description)}`);
+    }
+    checkStringArray(`${path}.aliases`, char.aliases, false);
+    checkNumberArray(`${path}.chapterMentions`, char.chapterMentions);
+  });
+
+  interactions.forEach((raw, index) => {
+    const path = `interactions[${index}]`;
+    if (typeof raw !== 'object' || raw === null) {
+      errors.push(`${path}: expected an object, got ${describe(raw)}`);
+      return;
+    }
+    const interaction = raw as RawRecord;
+
+    (['source', 'target'] as const).forEach(field => {
+      const endpoint = interaction[field];
+      if (typeof endpoint !== 'string' || endpoint.trim() === '') {
+        errors.push(`${path}.${field}: expected a non-empty string, got ${describe(endpoint)}`);
+      } else if (!names.has(endpoint)) {
+        warnings.push(`${path}.${field}: "${endpoint}" is not a listed character and will be hidden`);
+      }
+    });
+    if (typeof interaction.weight !== 'number' || !Number.isFinite(interaction.weight)) {
+      errors.push(`${path}.weight: expected a number, got ${describe(interaction.weight)}`);
+    }
+    checkStringArray(`${path}.contexts`, interaction.contexts, true);
+    checkNumberArray(`${path}.chapterWeights`, interaction.chapterWeights);
+    checkNumberArray(`${path}.contextChapters`, interaction.contextChapters);
+  });
+
+  if (root.chapters !== undefined) {
+    if (!Array.isArray(root.chapters)) {
+      errors.push(`chapters: expected an array, got ${describe(root.chapters)}`);
+    } else {
+      root.chapters.forEach((raw, index) => {
+        const chapter = (raw ?? {}) as RawRecord;
+        if (typeof chapter.index !== 'number' || typeof chapter.title !== 'string') {
+          errors.push(`chapters[${index}]: expected { index: number, title: string }, got ${describe(raw)}`);
+        }
+      });
+    }
+  }
+
+  return {
+    result: errors.length === 0 ? (value as AnalysisResult) : null,
+    errors,
+    warnings
+  };
+};
+
+// List fields are exported as JSON arrays; fall back to a plain separator for hand-made files
+const parseList = (value: string | undefined, separator: RegExp): string[] => {
+  if (!value || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON, split it instead
+  }
+  return value.split(separator).map(item => item.trim()).filter(Boolean);
+};
+
+const parseNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+};
+
+interface RawNode { id: string; attributes: Record<string, string> }
+interface RawEdge { source: string; target: string; attributes: Record<string, string> }
+
+// Build an AnalysisResult from generic node/edge records, filling gaps external tools leave out
+const fromGraphRecords = (rawNodes: RawNode[], rawEdges: RawEdge[], warnings: string[]): unknown => {
+  const nameById = new Map<string, string>();
+  rawNodes.forEach(node => nameById.set(node.id, node.attributes.label || node.attributes.name || node.id));
+
+  const interactions = rawEdges.map(edge => ({
+    source: nameById.get(edge.source) ?? edge.source,
+    target: nameById.get(edge.target) ?? edge.target,
+    weight: parseNumber(edge.attributes.weight) ?? 1,
+    contexts: parseList(edge.attributes.contexts, /\s*\|\|\s*/)
+  }));
+
+  // Without a node list, every edge endpoint becomes a character
+  if (rawNodes.length === 0) {
+    const endpoints = new Set(interactions.flatMap(interaction => [interaction.source, interaction.target]));
+    endpoints.forEach(name => rawNodes.push({ id: name, attributes: {} }));
+    if (endpoints.size > 0) warnings.push('nodes: no node list found, characters were created from edge endpoints');
+  }
+
+  let missingMentions = 0;
+  const characters = rawNodes.map(node => {
+    const name = nameById.get(node.id) ?? node.id;
+    let mentions = parseNumber(node.attributes.mentions);
+    if (mentions === undefined) {
+      // Weighted degree is the closest stand-in for how often a character appears
+      missingMentions++;
+      mentions = interactions
+        .filter(interaction => interaction.source === name || interaction.target === name)
+        .reduce((sum, interaction) => sum + (typeof interaction.weight === 'number' ? interaction.weight : 0), 0);
+    }
+    return {
+      name,
+      mentions,
+      description: node.attributes.description ?? '',
+      aliases: parseList(node.attributes.aliases, /\s*;\s*/)
+    };
+  });
+
+  if (missingMentions > 0) {
+    warnings.push(`characters: ${missingMentions} had no mentions value, their weighted degree was used instead`);
+  }
+
+  return { characters, interactions };
+};
+
+const parseXml = (text: string, errors: string[]) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    errors.push(`file: not well-formed XML (${parserError.textContent?.trim().split('\n')[0] ?? 'parse error'})`);
+    return null;
+  }
+  return doc;
+};
+
+const parseGraphML = (text: string, errors: string[], warnings: string[]): unknown => {
+  const doc = parseXml(text, errors);
+  if (!doc) return null;
+
+  const keyNames = new Map<string, string>();
+  Array.from(doc.getElementsByTagName('key')).forEach(key => {
+    keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+  });
+
+  const readData = (element: Element) => {
+    const attributes: Record<string, string> = {};
+    Array.from(element.getElementsByTagName('data')).forEach(data => {
+      const key = data.getAttribute('key') ?? '';
+      attributes[keyNames.get(key) ?? key] = data.textContent ?? '';
+    });
+    return attributes;
+  };
+
+  const nodes = Array.from(doc.getElementsByTagName('node')).map(node => ({
+    id: node.getAttribute('id') ?? '',
+    attributes: readData(node)
+  }));
+  const edges = Array.from(doc.getElementsByTagName('edge')).map(edge => ({
+    source: edge.getAttribute('source') ?? '',
+    target: edge.getAttribute('target') ?? '',
+    attributes: readData(edge)
+  }));
+
+  if (nodes.length === 0 && edges.length === 0) {
+    errors.push('graph: no <node> or <edge> elements found');
+    return null;
+  }
+  return fromGraphRecords(nodes, edges, warnings);
+};
+
+const parseGEXF = (text: string, errors: string[], warnings: string[]): unknown => {
+  const doc = parseXml(text, errors);
+  if (!doc) return null;
+
+  // Attribute ids are scoped per class, and Gephi numbers node and edge attributes both from "0"
+  const attributeTitles = new Map<string, string>();
+  Array.from(doc.getElementsByTagName('attributes')).forEach(group => {
+    const attributeClass = group.getAttribute('class') ?? 'node';
+    Array.from(group.getElementsByTagName('attribute')).forEach(attribute => {
+      const id = attribute.getAttribute('id') ?? '';
+      attributeTitles.set(`${attributeClass}:${id}`, attribute.getAttribute('title') ?? id);
+    });
+  });
+
+  const readAttValues = (element: Element, attributeClass: 'node' | 'edge') => {
+    const attributes: Record<string, string> = {};
+    Array.from(element.getElementsByTagName('attvalue')).forEach(attvalue => {
+      const key = attvalue.getAttribute('for') ?? attvalue.getAttribute('id') ?? '';
+      attributes[attributeTitles.get(`${attributeClass}:${key}`) ?? key] = attvalue.getAttribute('value') ?? '';
+    });
+    return attributes;
+  };
+
+  const nodes = Array.from(doc.getElementsByTagName('node')).map(node => ({
+    id: node.getAttribute('id') ?? '',
+    attributes: { label: node.getAttribute('label') ?? '', ...readAttValues(node, 'node') }
+  }));
+  const edges = Array.from(doc.getElementsByTagName('edge')).map(edge => {
+    const weight = edge.getAttribute('weight');
+    return {
+      source: edge.getAttribute('source') ?? '',
+      target: edge.getAttribute('target') ?? '',
+      attributes: { ...(weight !== null ? { weight } : {}), ...readAttValues(edge, 'edge') }
+    };
+  });
+
+  if (nodes.length === 0 && edges.length === 0) {
+    errors.push('graph: no <node> or <edge> elements found');
+    return null;
+  }
+  return fromGraphRecords(nodes, edges, warnings);
+};
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const csvRecords = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = header.map(column => column.trim().toLowerCase());
+  return {
+    columns,
+    records: rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])))
+  };
+};
+
+const parseCsvFiles = async (files: File[], errors: string[], warnings: string[]): Promise<unknown> => {
+  let nodes: RawNode[] = [];
+  let edges: RawEdge[] = [];
+
+  for (const file of files) {
+    const { columns, records } = csvRecords(await file.text());
+    if (columns.includes('source') && columns.includes('target')) {
+      edges = records.map(record => ({ source: record.source, target: record.target, attributes: record }));
+    } else if (columns.includes('id') || columns.includes('name')) {
+      nodes = records.map(record => ({ id: record.id || record.name, attributes: record }));
+    } else {
+      errors.push(`${file.name}: expected a node CSV (id or name column) or an edge CSV (source and target columns)`);
+    }
+  }
+
+  if (errors.length > 0) return null;
+  if (edges.length === 0) warnings.push('edges: no edge CSV provided, the network will have no interactions');
+  return fromGraphRecords(nodes, edges, warnings);
+};
+
+const detectFormat = (file: File): ImportFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'graphml') return 'graphml';
+  if (extension === 'gexf') return 'gexf';
+  if (extension === 'csv') return 'csv';
+  return null;
+};
+
+/**
+ * Read one or more dropped files into an AnalysisResult. JSON, GraphML and GEXF are single
+ * files; CSV imports take a node file and an edge file together.
+ */
+export const importFiles = async (files: File[]): Promise<ImportOutcome> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (files.length === 0) {
+    return { format: null, result: null, errors: ['file: no file selected'], warnings };
+  }
+
+  const formats = files.map(detectFormat);
+  const unknown = files.filter((_, index) => formats[index] === null);
+  if (unknown.length > 0) {
+    return {
+      format: null,
+      result: null,
+      errors: unknown.map(file => `${file.name}: unsupported file type, use .json, .graphml, .gexf or .csv`),
+      warnings
+    };
+  }
+
+  const format = formats[0]!;
+  if (formats.some(f => f !== format) || (format !== 'csv' && files.length > 1)) {
+    return {
+      format: null,
+      result: null,
+      errors: ['file: import one JSON, GraphML or GEXF file, or a node CSV and an edge CSV together'],
+      warnings
+    };
+  }
+
+  let candidate: unknown = null;
+  try {
+    switch (format) {
+      case 'json':
+        candidate = JSON.parse(await files[0].text());
+        break;
+      case 'graphml':
+        candidate = parseGraphML(await files[0].text(), errors, warnings);
+        break;
+      case 'gexf':
+        candidate = parseGEXF(await files[0].text(), errors, warnings);
+        break;
+      case 'csv':
+        candidate = await parseCsvFiles(files, errors, warnings);
+        break;
+    }
+  } catch (err) {
+    errors.push(`file: ${err instanceof Error ? err.message : 'could not be read'}`);
+  }
+
+  // A JSON file holding just `null` parses without complaint
+  if (candidate === null && errors.length === 0) errors.push('file: expected an object');
+  if (errors.length > 0) {
+    return { format, result: null, errors, warnings };
+  }
+
+  const validation = validateAnalysisResult(candidate);
+  return {
+    format,
+    result: validation.result,
+    errors: validation.errors,
+    warnings: [...warnings, ...validation.warnings]
+  };
+};
@@ -0,0 +1,150 @@
+import type { LayoutKind, LayoutSettings, NetworkLink, NetworkNode, NodeMetrics } from '../types';
+import { getEndpointName, getNeighbourhood } from './network';
+
+export const LAYOUT_LABELS: Record<LayoutKind, string> = {
+  force: 'Force-directed',
+  circular: 'Circular',
+  radial: 'Radial',
+  hierarchical: 'Hierarchical',
+  arc: 'Arc diagram'
+};
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  kind: 'force',
+  spacing: 1,
+  order: 'community',
+  ringSpacing: 160
+};
+
+type Positions = Map<string, { x: number; y: number }>;
+
+interface LayoutContext {
+  width: number;
+  height: number;
+  center: string | null; // radial centre / hierarchy root, the best-known character when null
+  metrics?: Record<string, NodeMetrics>;
+}
+
+// Minimum distance between neighbouring characters on a circle or line, so labels stay readable
+const NODE_GAP = 80;
+
+const sortNodes = (nodes: NetworkNode[], order: LayoutSettings['order'], metrics?: Record<string, NodeMetrics>) =>
+  [...nodes].sort((a, b) => {
+    const byCommunity = order === 'community' && metrics
+      ? (metrics[a.id]?.community ?? 0) - (metrics[b.id]?.community ?? 0)
+      : 0;
+    return byCommunity || b.mentions - a.mentions;
+  });
+
+const circular = (nodes: NetworkNode[], settings: LayoutSettings, { width, height, metrics }: LayoutContext): Positions => {
+  const radius = Math.max(Math.min(width, height) / 2 - 60, (nodes.length * NODE_GAP) / (2 * Math.PI));
+  return new Map(sortNodes(nodes, settings.order, metrics).map((node, index) => {
+    const angle = (index / nodes.length) * 2 * Math.PI - Math.PI / 2;
+    return [node.id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) }];
+  }));
+};
+
+const arc = (nodes: NetworkNode[], settings: LayoutSettings, { width, height, metrics }: LayoutContext): Positions => {
+  const gap = Math.max(NODE_GAP, (width - 120) / Math.max(1, nodes.length - 1));
+  const start = width / 2 - (gap * (nodes.length - 1)) / 2;
+  return new Map(sortNodes(nodes, settings.order, metrics).map((node, index) => (
+    [node.id, { x: start + index * gap, y: height * 0.75 }]
+  )));
+};
+
+// Hop distance from the centre; characters it cannot reach go one level beyond the farthest
+const levelsFrom = (nodes: NetworkNode[], links: NetworkLink[], center: string) => {
+  const distances = getNeighbourhood(links, center, Infinity);
+  const outside = Math.max(0, ...distances.values()) + 1;
+  const levels: NetworkNode[][] = [];
+  nodes.forEach(node => {
+    const level = distances.get(node.id) ?? outside;
+    (levels[level] ??= []).push(node);
+  });
+  return levels.filter(Boolean);
+};
+
+const pickCenter = (nodes: NetworkNode[], center: string | null) =>
+  nodes.find(node => node.id === center)?.id ??
+  [...nodes].sort((a, b) => b.mentions - a.mentions)[0].id;
+
+const radial = (nodes: NetworkNode[], links: NetworkLink[], settings: LayoutSettings, context: LayoutContext): Positions => {
+  const { width, height, metrics } = context;
+  const positions: Positions = new Map();
+  levelsFrom(nodes, links, pickCenter(nodes, context.center)).forEach((ring, level) => {
+    // Outer rings grow when they hold more characters than fit at the configured spacing
+    const radius = Math.max(level * settings.ringSpacing, (ring.length * NODE_GAP) / (2 * Math.PI));
+    sortNodes(ring, 'community', metrics).forEach((node, index) => {
+      // Rings are rotated against each other so small rings do not line up on one spoke
+      const angle = (index / ring.length) * 2 * Math.PI - Math.PI / 2 + level * 0.7;
+      positions.set(node.id, {
+        x: width / 2 + (level === 0 ? 0 : radius * Math.cos(angle)),
+        y: height / 2 + (level === 0 ? 0 : radius * Math.sin(angle))
+      });
+    });
+  });
+  return positions;
+};
+
+const hierarchical = (nodes: NetworkNode[], links: NetworkLink[], settings: LayoutSettings, context: LayoutContext): Positions => {
+  const { width } = context;
+  const positions: Positions = new Map();
+  const neighbours = new Map<string, string[]>();
+  links.forEach(link => {
+    const source = getEndpointName(link.source);
+    const target = getEndpointName(link.target);
+    neighbours.set(source, [...(neighbours.get(source) ?? []), target]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), source]);
+  });
+
+  levelsFrom(nodes, links, pickCenter(nodes, context.center)).forEach((level, depth) => {
+    // Order each level by the mean position of its parents to cut down on crossings
+    const parentX = (node: NetworkNode) => {
+      const placed = (neighbours.get(node.id) ?? []).map(name => positions.get(name)).filter(position => position !== undefined);
+      return placed.length > 0 ? placed.reduce((sum, position) => sum + position.x, 0) / placed.length : width / 2;
+    };
+    const ordered = [...level].sort((a, b) => parentX(a) - parentX(b) || b.mentions - a.mentions);
+    const gap = Math.max(NODE_GAP + 20, width / (ordered.length + 1));
+    const start = width / 2 - (gap * (ordered.length - 1)) / 2;
+    ordered.forEach((node, index) => {
+      positions.set(node.id, { x: start + index * gap, y: 80 + depth * settings.ringSpacing });
+    });
+  });
+  return positions;
+};
+
+/**
+ * Fixed target positions for the non-force layouts, or null when the force simulation
+ * should place the characters itself.
+ */
+export const computeLayout = (
+  nodes: NetworkNode[],
+  links: NetworkLink[],
+  settings: LayoutSettings,
+  context: LayoutContext
+): Positions | null => {
+  if (nodes.length === 0) return null;
+
+  switch (settings.kind) {
+    case 'circular':
+      return circular(nodes, settings, context);
+    case 'arc':
+      return arc(nodes, settings, context);
+    case 'radial':
+      return radial(nodes, links, settings, context);
+    case 'hierarchical':
+      return hierarchical(nodes, links, settings, context);
+    default:
+      return null;
+  }
+};
+
+// Straight links, except in the arc diagram where each link is a half circle above the baseline
+export const getLinkPath = (kind: LayoutKind, link: NetworkLink) => {
+  const source = link.source as NetworkNode;
+  const target = link.target as NetworkNode;
+  if (kind !== 'arc') return `M${source.x},${source.y}L${target.x},${target.y}`;
+
+  const radius = Math.abs(target.x! - source.x!) / 2;
+  return `M${source.x},${source.y}A${radius},${radius} 0 0,${source.x! < target.x! ? 1 : 0} ${target.x},${target.y}`;
+};
@@ -0,0 +1,88 @@
+import type { MatrixOrder, NetworkLink, NetworkNode, NodeMetrics } from '../types';
+import { getEndpointName } from './network';
+import { getPairKey } from './diff';
+
+export const MATRIX_ORDER_LABELS: Record<MatrixOrder, string> = {
+  name: 'Name',
+  mentions: 'Mentions',
+  community: 'Community',
+  cluster: 'Similar partners'
+};
+
+// Links by unordered pair, with parallel links folded together
+export const buildLinkLookup = (links: NetworkLink[]) => {
+  const lookup = new Map<string, NetworkLink>();
+  links.forEach(link => {
+    const key = getPairKey(getEndpointName(link.source), getEndpointName(link.target));
+    const existing = lookup.get(key);
+    lookup.set(key, existing
+      ? { ...existing, weight: existing.weight + link.weight, contexts: [...existing.contexts, ...link.contexts] }
+      : link);
+  });
+  return lookup;
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let dot = 0;
+  a.forEach((weight, partner) => {
+    dot += weight * (b.get(partner) ?? 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  return dot === 0 ? 0 : dot / (norm(a) * norm(b));
+};
+
+/**
+ * Greedy seriation: start from the most connected character and keep appending the unplaced
+ * character whose interaction profile is most similar to the last one placed. Characters that
+ * share partners end up next to each other, which turns groups into blocks along the diagonal.
+ */
+const clusterOrder = (nodes: NetworkNode[], links: NetworkLink[]) => {
+  const profiles = new Map(nodes.map(node => [node.id, new Map<string, number>([[node.id, 1]])]));
+  links.forEach(link => {
+    const source = getEndpointName(link.source);
+    const target = getEndpointName(link.target);
+    profiles.get(source)?.set(target, (profiles.get(source)?.get(target) ?? 0) + link.weight);
+    profiles.get(target)?.set(source, (profiles.get(target)?.get(source) ?? 0) + link.weight);
+  });
+  const strength = (id: string) => [...profiles.get(id)!.values()].reduce((sum, weight) => sum + weight, 0);
+
+  const remaining = new Set(nodes.map(node => node.id));
+  const order: string[] = [];
+  let current = [...remaining].sort((a, b) => strength(b) - strength(a))[0];
+  while (current !== undefined) {
+    order.push(current);
+    remaining.delete(current);
+    const last = profiles.get(current)!;
+    let best: string | undefined;
+    let bestScore = -1;
+    remaining.forEach(id => {
+      const score = cosine(last, profiles.get(id)!) + strength(id) * 1e-9; // ties go to the stronger character
+      if (score > bestScore) {
+        best = id;
+        bestScore = score;
+      }
+    });
+    current = best!;
+  }
+  return order;
+};
+
+export const orderMatrix = (
+  nodes: NetworkNode[],
+  links: NetworkLink[],
+  order: MatrixOrder,
+  metrics?: Record<string, NodeMetrics>
+): string[] => {
+  switch (order) {
+    case 'name':
+      return nodes.map(node => node.id).sort((a, b) => a.localeCompare(b));
+    case 'community':
+      return [...nodes]
+        .sort((a, b) => (metrics?.[a.id]?.community ?? 0) - (metrics?.[b.id]?.community ?? 0) || b.mentions - a.mentions)
+        .map(node => node.id);
+    case 'cluster':
+      return clusterOrder(nodes, links);
+    default:
+      return [...nodes].sort((a, b) => b.mentions - a.mentions).map(node => node.id);
+  }
+};
@@ -0,0 +1,110 @@
+import type { AnalysisResult, NetworkFilters, NetworkLink, NetworkNode } from '../types';
+import { CHARACTER_PALETTE } from './colors';
+
+export const DEFAULT_FILTERS: NetworkFilters = {
+  minMentions: 2,
+  minWeight: 2,
+  maxNodes: null,
+  rankBy: 'mentions',
+  hideIsolated: false
+};
+
+interface Network {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+}
+
+// D3 replaces link endpoints with node objects once the simulation starts
+export const getEndpointName = (endpoint: string | NetworkNode): string =>
+  typeof endpoint === 'string' ? endpoint : endpoint.name;
+
+// 1-5 stars, one per five mentions
+export const getImportance = (mentions: number) => Math.min(5, Math.ceil(mentions / 5));
+
+export const getLinkKey = (link: NetworkLink): string =>
+  `${getEndpointName(link.source)}-${getEndpointName(link.target)}`;
+
+// Turn an analysis result into simulation-ready nodes and links, dropping minor characters and pairs
+export const buildNetwork = (
+  data: AnalysisResult,
+  { minMentions, minWeight }: Pick<NetworkFilters, 'minMentions' | 'minWeight'> = DEFAULT_FILTERS
+): Network => {
+  // Filter characters with sufficient mentions
+  const filteredCharacters = data.characters.filter(char => char.mentions >= minMentions);
+  const characterMap = new Map();
+
+  // Create enhanced node objects with unique colors
+  const nodes: NetworkNode[] = filteredCharacters.map((char, index) => {
+    const importance = getImportance(char.mentions);
+    const node: NetworkNode = {
+      id: char.name,
+      name: char.name,
+      mentions: char.mentions,
+      description: char.description,
+      aliases: char.aliases,
+      radius: Math.max(30, Math.min(60, 20 + Math.sqrt(char.mentions) * 6)), // Slightly larger for better text display
+      importance,
+      color: CHARACTER_PALETTE[index % CHARACTER_PALETTE.length] // Ensure unique colors
+    };
+    characterMap.set(char.name, node);
+    return node;
+  });
+
+  // Filter and create links
+  const validInteractions = data.interactions.filter(interaction => 
+    characterMap.has(interaction.source) && 
+    characterMap.has(interaction.target) &&
+    interaction.weight >= minWeight
+  );
+
+  const links: NetworkLink[] = validInteractions.map(interaction => ({
+    source: interaction.source,
+    target: interaction.target,
+    weight: interaction.weight,
+    contexts: interaction.contexts,
+    strokeWidth: Math.max(2, Math.min(10, Math.sqrt(interaction.weight) * 2.5))
+  }));
+
+  return { nodes, links };
+};
+
+// The characters in `kept` and the links between them
+export const keepNodes = ({ nodes, links }: Network, kept: Set<string>): Network => ({
+  nodes: nodes.filter(node => kept.has(node.id)),
+  links: links.filter(link => kept.has(getEndpointName(link.source)) && kept.has(getEndpointName(link.target)))
+});
+
+// Keep the `count` highest-scoring characters and the links between them
+export const keepTopNodes = (network: Network, count: number, score: (node: NetworkNode) => number): Network =>
+  keepNodes(network, new Set(
+    [...network.nodes].sort((a, b) => score(b) - score(a)).slice(0, count).map(node => node.id)
+  ));
+
+// Hop distance from `center` to every character at most `hops` links away (breadth-first)
+export const getNeighbourhood = (links: NetworkLink[], center: string, hops: number) => {
+  const adjacency = new Map<string, string[]>();
+  links.forEach(link => {
+    const source = getEndpointName(link.source);
+    const target = getEndpointName(link.target);
+    adjacency.set(source, [...(adjacency.get(source) ?? []), target]);
+    adjacency.set(target, [...(adjacency.get(target) ?? []), source]);
+  });
+
+  const distances = new Map([[center, 0]]);
+  let frontier = [center];
+  for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+    frontier = frontier
+      .flatMap(name => adjacency.get(name) ?? [])
+      .filter(name => {
+        if (distances.has(name)) return false;
+        distances.set(name, hop);
+        return true;
+      });
+  }
+  return distances;
+};
+
+export const removeIsolatedNodes = ({ nodes, links }: Network): Network => {
+  const connected = new Set(links.flatMap(link => [getEndpointName(link.source), getEndpointName(link.target)]));
+  return { nodes: nodes.filter(node => connected.has(node.id)), links };
+};
@@ -0,0 +1,182 @@
+import type { CharacterPath, NetworkLink, PathMode } from '../types';
+import { getEndpointName } from './network';
+
+const MAX_PATHS = 6;
+
+interface Edge {
+  weight: number;
+  context?: string;
+}
+
+// Undirected adjacency with parallel links between the same pair folded together
+const buildAdjacency = (links: NetworkLink[]) => {
+  const adjacency = new Map<string, Map<string, Edge>>();
+  const addEdge = (from: string, to: string, link: NetworkLink) => {
+    const partners = adjacency.get(from) ?? new Map<string, Edge>();
+    const existing = partners.get(to);
+    partners.set(to, {
+      weight: (existing?.weight ?? 0) + link.weight,
+      context: existing?.context ?? link.contexts[0]
+    });
+    adjacency.set(from, partners);
+  };
+
+  links.forEach(link => {
+    const source = getEndpointName(link.source);
+    const target = getEndpointName(link.target);
+    if (source === target) return;
+    addEdge(source, target, link);
+    addEdge(target, source, link);
+  });
+  return adjacency;
+};
+
+const toPath = (characters: string[], adjacency: Map<string, Map<string, Edge>>): CharacterPath => {
+  const hops = characters.slice(1).map((target, index) => {
+    const source = characters[index];
+    const edge = adjacency.get(source)!.get(target)!;
+    return { source, target, weight: edge.weight, context: edge.context };
+  });
+  return { characters, hops, totalWeight: hops.reduce((sum, hop) => sum + hop.weight, 0) };
+};
+
+// Every path with the fewest hops (breadth-first), strongest first
+const fewestHopPaths = (adjacency: Map<string, Map<string, Edge>>, from: string, to: string, limit: number) => {
+  const distances = new Map([[from, 0]]);
+  const predecessors = new Map<string, string[]>();
+  let frontier = [from];
+
+  while (frontier.length > 0 && !distances.has(to)) {
+    const next: string[] = [];
+    frontier.forEach(name => {
+      const distance = distances.get(name)! + 1;
+      adjacency.get(name)?.forEach((_, partner) => {
+        if (!distances.has(partner)) {
+          distances.set(partner, distance);
+          next.push(partner);
+        }
+        if (distances.get(partner) === distance) {
+          predecessors.set(partner, [...(predecessors.get(partner) ?? []), name]);
+        }
+      });
+    });
+    frontier = next;
+  }
+  if (!distances.has(to)) return [];
+
+  // Walk the predecessor graph back from the target; capped because the count can explode
+  const paths: string[][] = [];
+  const walk = (name: string, suffix: string[]) => {
+    if (paths.length >= limit * 4) return;
+    if (name === from) {
+      paths.push([from, ...suffix]);
+      return;
+    }
+    predecessors.get(name)?.forEach(previous => walk(previous, [name, ...suffix]));
+  };
+  walk(to, []);
+
+  return paths
+    .map(characters => toPath(characters, adjacency))
+    .sort((a, b) => b.totalWeight - a.totalWeight)
+    .slice(0, limit);
+};
+
+// Dijkstra with 1 / weight as the cost of a hop, so frequent interactions make short distances
+const strongestPath = (adjacency: Map<string, Map<string, Edge>>, from: string, to: string) => {
+  const costs = new Map([[from, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+
+  while (!visited.has(to)) {
+    let current: string | null = null;
+    for (const [name, cost] of costs) {
+      if (!visited.has(name) && (current === null || cost < costs.get(current)!)) current = name;
+    }
+    if (current === null) return null;
+
+    const base = costs.get(current)!;
+    visited.add(current);
+    adjacency.get(current)?.forEach((edge, partner) => {
+      const cost = base + 1 / edge.weight;
+      if (!visited.has(partner) && cost < (costs.get(partner) ?? Infinity)) {
+        costs.set(partner, cost);
+        previous.set(partner, current);
+      }
+    });
+  }
+
+  const characters = [to];
+  while (characters[0] !== from) characters.unshift(previous.get(characters[0])!);
+  return toPath(characters, adjacency);
+};
+
+const inverseWeight = (path: CharacterPath) => path.hops.reduce((sum, hop) => sum + 1 / hop.weight, 0);
+
+// Simple paths of exactly `hopCount` hops, lowest total inverse weight first
+const pathsWithHops = (
+  adjacency: Map<string, Map<string, Edge>>,
+  from: string,
+  to: string,
+  hopCount: number,
+  limit: number
+) => {
+  // Hops from each character to the target, to drop branches that cannot arrive in time
+  const distances = new Map([[to, 0]]);
+  let frontier = [to];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach(name => {
+      adjacency.get(name)?.forEach((_, partner) => {
+        if (!distances.has(partner)) {
+          distances.set(partner, distances.get(name)! + 1);
+          next.push(partner);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  // Heaviest links are tried first; capped like fewestHopPaths because the count can explode
+  const paths: string[][] = [];
+  const walk = (characters: string[]) => {
+    if (paths.length >= limit * 4) return;
+    const name = characters[characters.length - 1];
+    const remaining = hopCount - (characters.length - 1);
+    if (name === to) {
+      if (remaining === 0) paths.push(characters);
+      return;
+    }
+    [...(adjacency.get(name) ?? [])]
+      .sort(([, a], [, b]) => b.weight - a.weight)
+      .forEach(([partner]) => {
+        const distance = distances.get(partner);
+        if (distance !== undefined && distance <= remaining - 1 && !characters.includes(partner)) {
+          walk([...characters, partner]);
+        }
+      });
+  };
+  walk([from]);
+
+  return paths
+    .map(characters => toPath(characters, adjacency))
+    .sort((a, b) => inverseWeight(a) - inverseWeight(b))
+    .slice(0, limit);
+};
+
+/**
+ * Paths between two characters, best first. "shortest" returns every path with the fewest hops
+ * (heaviest first); "strongest" puts the path with the lowest total inverse weight first and follows
+ * it with other paths of the same number of hops, strongest first.
+ */
+export const findPaths = (links: NetworkLink[], from: string, to: string, mode: PathMode): CharacterPath[] => {
+  if (from === to) return [];
+  const adjacency = buildAdjacency(links);
+  if (mode === 'shortest') return fewestHopPaths(adjacency, from, to, MAX_PATHS);
+
+  const strongest = strongestPath(adjacency, from, to);
+  if (!strongest) return [];
+  const key = strongest.characters.join('\u0000');
+  const alternatives = pathsWithHops(adjacency, from, to, strongest.hops.length, MAX_PATHS + 1);
+  return [strongest, ...alternatives.filter(path => path.characters.join('\u0000') !== key)].slice(0, MAX_PATHS);
+};
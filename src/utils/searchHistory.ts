@@ -0,0 +1,44 @@
+const STORAGE_KEY = 'literary-network-search-history';
+const MAX_RECENT = 5;
+const MAX_TRACKED = 200; // distinct queries counted for "popular"
+
+export interface SearchHistory {
+  recent: string[]; // newest first
+  counts: Record<string, number>; // how often each query led to a picked book
+}
+
+const EMPTY_HISTORY: SearchHistory = { recent: [], counts: {} };
+
+export const readSearchHistory = (): SearchHistory => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || !Array.isArray(stored.recent) || typeof stored.counts !== 'object') return EMPTY_HISTORY;
+    return stored;
+  } catch {
+    return EMPTY_HISTORY;
+  }
+};
+
+export const recordSearch = (history: SearchHistory, query: string): SearchHistory => {
+  const counts = { ...history.counts, [query]: (history.counts[query] ?? 0) + 1 };
+  // Forget the least used queries once too many have piled up
+  const tracked = Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, MAX_TRACKED);
+  const next = {
+    recent: [query, ...history.recent.filter(recent => recent !== query)].slice(0, MAX_RECENT),
+    counts: Object.fromEntries(tracked)
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error('❌ Failed to save search history:', err);
+  }
+  return next;
+};
+
+export const getPopularSearches = (history: SearchHistory, count: number) =>
+  Object.entries(history.counts)
+    .filter(([, uses]) => uses > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([query]) => query);
@@ -0,0 +1,152 @@
+export type SnapshotBackground = 'transparent' | 'light' | 'dark';
+
+export interface SnapshotLegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface SnapshotOptions {
+  background: SnapshotBackground;
+  title?: string;
+  subtitle?: string;
+  legend?: SnapshotLegendEntry[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const HEADER_HEIGHT = 64;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_COLUMN_WIDTH = 220;
+
+const BACKGROUND_FILL: Record<SnapshotBackground, string | null> = {
+  transparent: null,
+  light: '#ffffff',
+  dark: '#000000'
+};
+
+const NEUTRAL_STROKE = /^rgba?\((\d+), \1, \1(?:, ([\d.]+))?\)$/;
+
+// The graph is styled for a dark canvas: its default grey-to-white links and white labels would
+// vanish on a light or transparent background, so darken them. Diff and path colours are kept
+const restyleForLightBackground = (graph: SVGSVGElement, textColor: string) => {
+  graph.querySelectorAll('path.link').forEach(link => {
+    const match = link.getAttribute('stroke')?.match(NEUTRAL_STROKE);
+    if (!match) return;
+    const shade = 255 - Number(match[1]);
+    link.setAttribute('stroke', `rgba(${shade}, ${shade}, ${shade}, ${match[2] ?? 1})`);
+  });
+  graph.querySelectorAll<SVGTextElement>('text.node-text').forEach(label => {
+    label.setAttribute('fill', textColor);
+    label.style.textShadow = '0px 0px 4px rgba(255,255,255,0.9)';
+  });
+};
+
+const createSvgElement = <K extends keyof SVGElementTagNameMap>(name: K, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  return element;
+};
+
+/**
+ * Clone the live network SVG (including its gradient and glow defs and the current zoom)
+ * into a standalone document, adding an optional background, title block and legend.
+ * Returns the serialised markup and the size of the finished canvas.
+ */
+export const buildSnapshotSvg = (
+  source: SVGSVGElement,
+  width: number,
+  height: number,
+  options: SnapshotOptions
+) => {
+  const textColor = options.background === 'dark' ? '#ffffff' : '#222222';
+  const hasHeader = !!(options.title || options.subtitle);
+  const headerHeight = hasHeader ? HEADER_HEIGHT : 0;
+
+  const legend = options.legend ?? [];
+  const legendColumns = Math.max(1, Math.floor(width / LEGEND_COLUMN_WIDTH));
+  const legendRows = Math.ceil(legend.length / legendColumns);
+  const legendHeight = legend.length > 0 ? legendRows * LEGEND_ROW_HEIGHT + 24 : 0;
+
+  const totalHeight = height + headerHeight + legendHeight;
+
+  const graph = source.cloneNode(true) as SVGSVGElement;
+  graph.removeAttribute('style');
+  graph.setAttribute('x', '0');
+  graph.setAttribute('y', String(headerHeight));
+  graph.setAttribute('width', String(width));
+  graph.setAttribute('height', String(height));
+  if (options.background !== 'dark') restyleForLightBackground(graph, textColor);
+
+  const root = createSvgElement('svg', {
+    xmlns: SVG_NS,
+    width,
+    height: totalHeight,
+    viewBox: `0 0 ${width} ${totalHeight}`
+  });
+
+  const fill = BACKGROUND_FILL[options.background];
+  if (fill) {
+    root.appendChild(createSvgElement('rect', { x: 0, y: 0, width, height: totalHeight, fill }));
+  }
+
+  if (hasHeader) {
+    const fontFamily = "'Segoe UI', 'Roboto', sans-serif";
+    if (options.title) {
+      const title = createSvgElement('text', {
+        x: 24, y: 34, fill: textColor, 'font-size': 22, 'font-weight': 700, 'font-family': fontFamily
+      });
+      title.textContent = options.title;
+      root.appendChild(title);
+    }
+    if (options.subtitle) {
+      const subtitle = createSvgElement('text', {
+        x: 24, y: options.title ? 54 : 34, fill: textColor, opacity: 0.7, 'font-size': 13, 'font-family': fontFamily
+      });
+      subtitle.textContent = options.subtitle;
+      root.appendChild(subtitle);
+    }
+  }
+
+  root.appendChild(graph);
+
+  legend.forEach((entry, index) => {
+    const column = index % legendColumns;
+    const row = Math.floor(index / legendColumns);
+    const x = 24 + column * LEGEND_COLUMN_WIDTH;
+    const y = headerHeight + height + 16 + row * LEGEND_ROW_HEIGHT;
+
+    root.appendChild(createSvgElement('circle', { cx: x + 6, cy: y + 6, r: 6, fill: entry.color }));
+    const label = createSvgElement('text', {
+      x: x + 18, y: y + 10, fill: textColor, 'font-size': 12, 'font-family': "'Segoe UI', 'Roboto', sans-serif"
+    });
+    label.textContent = entry.label;
+    root.appendChild(label);
+  });
+
+  const markup = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(root)}`;
+  return { markup, width, height: totalHeight };
+};
+
+// Rasterise serialised SVG markup at the requested pixel density
+export const svgToPngBlob = async (markup: string, width: number, height: number, pixelRatio: number): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,191 @@
+import type { DetectedChapter, TextFormat, UploadedText } from '../types';
+import { openZip } from './zip';
+
+const GUTENBERG_START = /^\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG E(?:BOOK|TEXT)[^\n]*$/im;
+const GUTENBERG_END = /^(?:\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG E(?:BOOK|TEXT)|End of (?:the )?Project Gutenberg'?s? )[^\n]*$/im;
+const GUTENBERG_TITLE = /^Title:\s*(.+)$/m;
+
+const HEADING_KEYWORDS = ['chapter', 'book', 'part', 'letter', 'stave', 'canto', 'volume'];
+const NUMBER_WORDS = [
+  'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen',
+  'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty', 'thirty', 'forty', 'fifty',
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth', 'eleventh',
+  'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth', 'nineteenth',
+  'twentieth', 'thirtieth', 'fortieth', 'fiftieth', 'last'
+];
+
+// "chapter" -> "chapter|Chapter|CHAPTER", so roman numerals can stay upper case only
+const anyCase = (words: string[]) =>
+  words.flatMap(word => [word, word[0].toUpperCase() + word.slice(1), word.toUpperCase()]).join('|');
+
+const NUMBER_WORD = `(?:${anyCase(NUMBER_WORDS)})`;
+
+// "CHAPTER XII. The Storm", "Letter 4", "BOOK THE FIRST", "Stave One", "Part Twenty-One"; the keyword
+// must be followed by a numeral or a number word, so "Book him, sergeant." is not a heading
+const NAMED_HEADING = new RegExp(
+  `^(?:${anyCase(HEADING_KEYWORDS)})\\s+(?:(?:${anyCase(['the'])})\\s+)?` +
+  `(?:[IVXLCDM]+|\\d+|${NUMBER_WORD}(?:-${NUMBER_WORD})?)(?:[.:]|\\s+[^\\s]|$).{0,80}$`
+);
+// Bare roman numerals: "XIV" or "XIV. The Storm". Titled ones need the period, so "I went home." is not one
+const ROMAN_HEADING = /^[IVXLC]+(?:\.(?:\s+.{1,60})?)?$/;
+
+const BLOCK_TAGS = 'p, div, section, article, blockquote, li, tr, h1, h2, h3, h4, h5, h6, pre, hr';
+
+const detectTextFormat = (file: File): TextFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'txt') return 'txt';
+  if (extension === 'epub') return 'epub';
+  if (extension === 'html' || extension === 'htm' || extension === 'xhtml') return 'html';
+  return null;
+};
+
+export const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+// FNV-1a, negated so uploaded texts never share an id with a Project Gutenberg book
+export const getTextId = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return -((hash >>> 0) % 1_000_000_000) - 1;
+};
+
+// Plain text of an HTML or XHTML document, with a paragraph break after every block element
+const documentToText = (doc: Document) => {
+  const body = doc.body ?? doc.documentElement;
+  body.querySelectorAll('script, style, nav').forEach(element => element.remove());
+  body.querySelectorAll('br').forEach(element => element.replaceWith('\n'));
+  body.querySelectorAll(BLOCK_TAGS).forEach(element => element.append('\n\n'));
+  return body.textContent ?? '';
+};
+
+const parseHtml = (source: string, type: DOMParserSupportedType) => {
+  const doc = new DOMParser().parseFromString(source, type);
+  // Not every EPUB is well-formed XHTML; the HTML parser copes with the rest
+  return doc.getElementsByTagName('parsererror').length > 0
+    ? new DOMParser().parseFromString(source, 'text/html')
+    : doc;
+};
+
+// Resolve an href from the package document against the package's folder
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const readEpub = async (buffer: ArrayBuffer) => {
+  const zip = openZip(buffer);
+  const container = await zip.readText('META-INF/container.xml');
+  const packagePath = container
+    ? new DOMParser().parseFromString(container, 'application/xml').getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+    : null;
+  const packageSource = packagePath ? await zip.readText(packagePath) : null;
+  if (!packagePath || !packageSource) throw new Error('no package document found, is this an EPUB?');
+
+  const pkg = new DOMParser().parseFromString(packageSource, 'application/xml');
+  const manifest = new Map(
+    Array.from(pkg.getElementsByTagName('item')).map(item => [item.getAttribute('id'), item.getAttribute('href')])
+  );
+
+  // Reading order comes from the spine, not from the order files sit in the archive
+  const sections: string[] = [];
+  for (const itemRef of Array.from(pkg.getElementsByTagName('itemref'))) {
+    const href = manifest.get(itemRef.getAttribute('idref'));
+    const source = href ? await zip.readText(resolvePath(packagePath, href)) : null;
+    if (source) sections.push(documentToText(parseHtml(source, 'application/xhtml+xml')));
+  }
+
+  return {
+    text: sections.join('\n\n'),
+    title: pkg.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || null
+  };
+};
+
+/**
+ * Remove Project Gutenberg's licence header and footer, and tidy whitespace so paragraphs are
+ * separated by exactly one blank line.
+ */
+export const normaliseText = (raw: string) => {
+  let text = raw.normalize('NFC').replace(/\r\n?/g, '\n').replace(/\u00a0/g, ' ');
+  let removedBoilerplate = false;
+
+  const start = text.match(GUTENBERG_START);
+  if (start?.index !== undefined) {
+    text = text.slice(start.index + start[0].length);
+    removedBoilerplate = true;
+  }
+  const end = text.match(GUTENBERG_END);
+  if (end?.index !== undefined) {
+    text = text.slice(0, end.index);
+    removedBoilerplate = true;
+  }
+
+  text = text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, removedBoilerplate };
+};
+
+// Headings that stand alone as a paragraph; lines inside a table of contents are not picked up
+export const detectChapters = (text: string): DetectedChapter[] => {
+  const chapters: DetectedChapter[] = [];
+  let current: DetectedChapter | null = null;
+
+  text.split('\n\n').forEach(paragraph => {
+    if (!paragraph.includes('\n') && (NAMED_HEADING.test(paragraph) || ROMAN_HEADING.test(paragraph))) {
+      current = { title: paragraph, wordCount: 0 };
+      chapters.push(current);
+    } else if (current) {
+      current.wordCount += countWords(paragraph);
+    }
+  });
+
+  return chapters;
+};
+
+/**
+ * Read an uploaded .txt, .epub or .html file into normalised plain text, ready to preview and
+ * send for analysis.
+ */
+export const extractText = async (file: File): Promise<UploadedText> => {
+  const format = detectTextFormat(file);
+  if (!format) throw new Error(`${file.name}: unsupported file type, use .txt, .epub or .html`);
+
+  let raw: string;
+  let title: string | null = null;
+
+  if (format === 'epub') {
+    ({ text: raw, title } = await readEpub(await file.arrayBuffer()));
+  } else if (format === 'html') {
+    const doc = parseHtml(await file.text(), 'text/html');
+    title = doc.title.trim() || null;
+    raw = documentToText(doc);
+  } else {
+    raw = await file.text();
+  }
+
+  // Gutenberg texts name themselves in the header that is about to be stripped
+  title ??= raw.match(GUTENBERG_TITLE)?.[1].trim() ?? null;
+  const { text, removedBoilerplate } = normaliseText(raw);
+  if (!text) throw new Error(`${file.name}: no text found`);
+
+  return {
+    id: getTextId(text),
+    title: title ?? file.name.replace(/\.[^.]+$/, ''),
+    fileName: file.name,
+    format,
+    text,
+    wordCount: countWords(text),
+    chapters: detectChapters(text),
+    removedBoilerplate
+  };
+};
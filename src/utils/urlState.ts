@@ -0,0 +1,106 @@
+import { matchPath } from 'react-router-dom';
+import type { LayoutKind, LayoutSettings, MetricKey, NetworkFilters, ViewState } from '../types';
+import { METRIC_KEYS } from './graphMetrics';
+import { DEFAULT_LAYOUT, LAYOUT_LABELS } from './layouts';
+import { DEFAULT_FILTERS } from './network';
+
+const BOOK_PATH = '/book/:bookId';
+const CHARACTER_PATH = '/book/:bookId/character/:characterName';
+
+const readNumber = (params: URLSearchParams, key: string, fallback: number) => {
+  const value = Number(params.get(key));
+  return params.has(key) && Number.isFinite(value) ? value : fallback;
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Path params come back with most escapes still in place, e.g. "Mina%20Harker"
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Read the view encoded in a URL: `/book/:id` or `/book/:id/character/:name` for the book and
+ * selection, and the query string for filters, focus, layout, chapters and zoom. Anything missing
+ * or malformed falls back to the defaults.
+ */
+export const parseViewState = (pathname: string, search: string): ViewState => {
+  const characterMatch = matchPath(CHARACTER_PATH, pathname);
+  const match = characterMatch ?? matchPath(BOOK_PATH, pathname);
+  const bookId = match?.params.bookId ? Number(match.params.bookId) : NaN;
+  const params = new URLSearchParams(search);
+
+  const rankBy = params.get('rankBy');
+  const filters: NetworkFilters = {
+    minMentions: readNumber(params, 'minMentions', DEFAULT_FILTERS.minMentions),
+    minWeight: readNumber(params, 'minWeight', DEFAULT_FILTERS.minWeight),
+    maxNodes: params.has('maxNodes') ? readNumber(params, 'maxNodes', 0) || null : null,
+    rankBy: rankBy && METRIC_KEYS.includes(rankBy as MetricKey) ? rankBy as MetricKey : 'mentions',
+    hideIsolated: params.get('isolated') === 'hide'
+  };
+
+  const kind = params.get('layout');
+  const layout: LayoutSettings = {
+    kind: kind && Object.hasOwn(LAYOUT_LABELS, kind) ? kind as LayoutKind : DEFAULT_LAYOUT.kind,
+    spacing: readNumber(params, 'spacing', DEFAULT_LAYOUT.spacing),
+    order: params.get('order') === 'mentions' ? 'mentions' : DEFAULT_LAYOUT.order,
+    ringSpacing: readNumber(params, 'rings', DEFAULT_LAYOUT.ringSpacing)
+  };
+
+  // Chapters are 1-based in the URL, e.g. chapters=3-7
+  const chapters = params.get('chapters')?.match(/^(\d+)-(\d+)$/);
+  const zoom = params.get('zoom')?.split(',').map(Number);
+
+  return {
+    bookId: Number.isInteger(bookId) && bookId > 0 ? bookId : null,
+    title: params.get('title'),
+    character: characterMatch?.params.characterName ? decodeParam(characterMatch.params.characterName) : null,
+    focus: params.has('focus')
+      ? { hops: Math.min(3, Math.max(1, readNumber(params, 'focus', 1))), mode: params.get('focusMode') === 'fade' ? 'fade' : 'hide' }
+      : null,
+    filters,
+    layout,
+    chapterRange: chapters
+      ? { start: Math.max(0, Number(chapters[1]) - 1), end: Math.max(0, Number(chapters[2]) - 1) }
+      : null,
+    graphView: params.get('view') === 'matrix' ? 'matrix' : 'network',
+    zoom: zoom?.length === 3 && zoom.every(Number.isFinite) ? { x: zoom[0], y: zoom[1], k: zoom[2] } : null
+  };
+};
+
+// The URL for a view, leaving out everything that is at its default so links stay short
+export const buildViewUrl = (view: ViewState): string => {
+  if (view.bookId === null) return '/';
+
+  const path = view.character
+    ? `/book/${view.bookId}/character/${encodeURIComponent(view.character)}`
+    : `/book/${view.bookId}`;
+  const params = new URLSearchParams();
+  const { filters, layout } = view;
+
+  if (view.title) params.set('title', view.title);
+  if (filters.minMentions !== DEFAULT_FILTERS.minMentions) params.set('minMentions', String(filters.minMentions));
+  if (filters.minWeight !== DEFAULT_FILTERS.minWeight) params.set('minWeight', String(filters.minWeight));
+  if (filters.maxNodes !== null) params.set('maxNodes', String(filters.maxNodes));
+  if (filters.maxNodes !== null && filters.rankBy !== 'mentions') params.set('rankBy', filters.rankBy);
+  if (filters.hideIsolated) params.set('isolated', 'hide');
+  if (view.focus && view.character) {
+    params.set('focus', String(view.focus.hops));
+    if (view.focus.mode === 'fade') params.set('focusMode', 'fade');
+  }
+  if (layout.kind !== DEFAULT_LAYOUT.kind) params.set('layout', layout.kind);
+  if (layout.spacing !== DEFAULT_LAYOUT.spacing) params.set('spacing', String(round(layout.spacing, 2)));
+  if (layout.order !== DEFAULT_LAYOUT.order) params.set('order', layout.order);
+  if (layout.ringSpacing !== DEFAULT_LAYOUT.ringSpacing) params.set('rings', String(layout.ringSpacing));
+  if (view.chapterRange) params.set('chapters', `${view.chapterRange.start + 1}-${view.chapterRange.end + 1}`);
+  if (view.graphView !== 'network') params.set('view', view.graphView);
+  if (view.zoom) params.set('zoom', [round(view.zoom.x, 1), round(view.zoom.y, 1), round(view.zoom.k, 3)].join(','));
+
+  // Commas are safe in a query string and keep the zoom readable
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `${path}?${query}` : path;
+};
@@ -0,0 +1,77 @@
+// Just enough of the ZIP format to read the documents inside an EPUB: stored and deflated entries, no encryption or ZIP64
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  paths: string[];
+  readText: (path: string) => Promise<string | null>;
+}
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('not a ZIP archive');
+};
+
+const inflate = async (data: ArrayBuffer) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(path, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readText = async (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`corrupt ZIP entry ${path}`);
+    }
+    // The local header can carry a different extra field from the central directory
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = buffer.slice(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return decoder.decode(data);
+    if (entry.method === METHOD_DEFLATE) return decoder.decode(await inflate(data));
+    throw new Error(`unsupported compression in ${path}`);
+  };
+
+  return { paths: [...entries.keys()], readText };
+};
@@ -0,0 +1,21 @@
+import { buildSearchIndex, searchBooks, type BookSearchIndex, type BookSearchRequest, type BookSearchResponse } from '../utils/bookSearch';
+
+// Builds the catalogue index once, off the main thread, and answers searches against it
+const worker = self as unknown as Worker;
+let index: BookSearchIndex | null = null;
+
+worker.onmessage = (event: MessageEvent<BookSearchRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'index') {
+    const startedAt = performance.now();
+    index = buildSearchIndex(request.books);
+    console.log(`🔎 Indexed ${request.books.length} books in ${Math.round(performance.now() - startedAt)}ms`);
+    return;
+  }
+
+  const response: BookSearchResponse = index
+    ? { requestId: request.requestId, ...searchBooks(index, request.query, request.filters, request.limit) }
+    : { requestId: request.requestId, results: [], total: 0 };
+  worker.postMessage(response);
+};